@@ -0,0 +1,145 @@
+import {expect, describe, test} from '@jest/globals'
+import {
+  changedApprovedBlobs,
+  changedApprovedFiles,
+  describeApprovedFiles,
+  parseApprovalMetadata,
+} from '../src/approval-metadata'
+import {normalizeDiff, splitDiff} from '../src/diff'
+
+describe('parseApprovalMetadata', () => {
+  const valid = {
+    version: 1,
+    review_id: 123,
+    approved_sha: 'abc1234',
+    merge_base_sha: 'def5678',
+    base_sha: '111aaaa',
+    base_ref: 'main',
+    approved_at: '2024-01-01T00:00:00Z',
+  }
+
+  test('accepts valid metadata', () => {
+    expect(parseApprovalMetadata(JSON.stringify(valid))).toEqual(valid)
+  })
+
+  test('coerces a numeric string review_id from legacy snapshots', () => {
+    const legacy = {...valid, review_id: '123'}
+    expect(parseApprovalMetadata(JSON.stringify(legacy)).review_id).toBe(123)
+  })
+
+  test('drops unknown fields', () => {
+    const extra = {...valid, extra: 'field'}
+    expect(parseApprovalMetadata(JSON.stringify(extra))).toEqual(valid)
+  })
+
+  test('rejects unsupported version', () => {
+    const v0 = {...valid, version: 0}
+    expect(() => parseApprovalMetadata(JSON.stringify(v0))).toThrow(
+      'Unsupported metadata version'
+    )
+  })
+
+  test('rejects non-numeric review_id', () => {
+    const bad = {...valid, review_id: 'abc'}
+    expect(() => parseApprovalMetadata(JSON.stringify(bad))).toThrow(
+      'review_id'
+    )
+  })
+
+  test('rejects missing required fields', () => {
+    const {merge_base_sha: _, ...missing} = valid
+    expect(() => parseApprovalMetadata(JSON.stringify(missing))).toThrow(
+      'merge_base_sha'
+    )
+  })
+
+  test('rejects non-object JSON', () => {
+    expect(() => parseApprovalMetadata('[]')).toThrow('JSON object')
+    expect(() => parseApprovalMetadata('not json')).toThrow()
+  })
+
+  test('accepts version 2 metadata with files', () => {
+    const v2 = {
+      ...valid,
+      version: 2,
+      files: [
+        {
+          path: 'src/a.ts',
+          base_blob_sha: null,
+          head_blob_sha: 'abc1234',
+          patch_hash: 'a'.repeat(64),
+        },
+      ],
+    }
+    expect(parseApprovalMetadata(JSON.stringify(v2))).toEqual(v2)
+  })
+
+  test('rejects version 2 metadata without valid files', () => {
+    const v2 = {...valid, version: 2}
+    expect(() => parseApprovalMetadata(JSON.stringify(v2))).toThrow('files')
+    const bad_hash = {
+      ...v2,
+      files: [
+        {
+          path: 'a',
+          base_blob_sha: null,
+          head_blob_sha: null,
+          patch_hash: 'x',
+        },
+      ],
+    }
+    expect(() => parseApprovalMetadata(JSON.stringify(bad_hash))).toThrow(
+      'patch_hash'
+    )
+  })
+})
+
+describe('approved files', () => {
+  const diff = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1 +1 @@
+-old
++new
+diff --git a/src/b.ts b/src/b.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/b.ts
+@@ -0,0 +1 @@
++added
+`
+  const approved = describeApprovedFiles(diff)
+
+  test('records the blob SHAs of each file', () => {
+    expect(approved.map(({patch_hash: _, ...file}) => file)).toEqual([
+      {path: 'src/a.ts', base_blob_sha: '1111111', head_blob_sha: '2222222'},
+      {path: 'src/b.ts', base_blob_sha: null, head_blob_sha: '3333333'},
+    ])
+  })
+
+  test('patch hashes ignore the index lines', () => {
+    const rebased = diff.replace(
+      'index 1111111..2222222',
+      'index 4444444..5555555'
+    )
+    expect(
+      changedApprovedFiles(approved, splitDiff(normalizeDiff(rebased)))
+    ).toEqual([])
+    const changed = diff.replace('+added', '+changed')
+    expect(
+      changedApprovedFiles(approved, splitDiff(normalizeDiff(changed)))
+    ).toEqual(['src/b.ts'])
+  })
+
+  test('compares blob SHAs allowing abbreviation', () => {
+    expect(
+      changedApprovedBlobs(approved, [
+        {path: 'src/a.ts', head_blob_sha: '2222222abcdef'},
+        {path: 'src/b.ts', head_blob_sha: '6666666abcdef'},
+        {path: 'src/c.ts', head_blob_sha: null},
+      ])
+    ).toEqual(['src/b.ts', 'src/c.ts'])
+  })
+})
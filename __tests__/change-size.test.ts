@@ -0,0 +1,91 @@
+import {expect, describe, test} from '@jest/globals'
+import {
+  SmallChangePolicy,
+  evaluateSmallChange,
+  measureInterdiff,
+} from '../src/change-size'
+import {computeInterdiff} from '../src/interdiff'
+import {canonicalizeDiff, splitDiff} from '../src/diff'
+
+function fileDiff(path: string, hunk: string): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    hunk,
+  ].join('\n')
+}
+
+const reviewed = splitDiff(
+  [
+    fileDiff('docs/guide.md', '@@ -1,2 +1,2 @@\n intro\n-old\n+teh new text'),
+    fileDiff('src/a.ts', '@@ -1 +1 @@\n-a\n+b'),
+  ].join('\n')
+)
+const typo_fixed = splitDiff(
+  [
+    fileDiff('docs/guide.md', '@@ -1,2 +1,2 @@\n intro\n-old\n+the new text'),
+    fileDiff('src/a.ts', '@@ -1 +1 @@\n-a\n+b'),
+  ].join('\n')
+)
+const policy: SmallChangePolicy = {max_lines: 2, max_files: 1, paths: []}
+
+describe('measureInterdiff', () => {
+  test('counts the lines changed between the diffs', () => {
+    expect(measureInterdiff(computeInterdiff(reviewed, typo_fixed))).toEqual({
+      lines: 2,
+      files: 1,
+    })
+  })
+
+  test('counts added files in full', () => {
+    const current = [
+      ...typo_fixed,
+      ...splitDiff(fileDiff('src/b.ts', '@@ -0,0 +1,2 @@\n+one\n+two')),
+    ]
+    expect(measureInterdiff(computeInterdiff(reviewed, current))).toEqual({
+      lines: 4,
+      files: 2,
+    })
+  })
+
+  test('measures canonicalized diffs', () => {
+    const canonical = (files: typeof reviewed) =>
+      splitDiff(canonicalizeDiff(files.map(file => file.text).join('\n')))
+    expect(
+      measureInterdiff(
+        computeInterdiff(canonical(reviewed), canonical(typo_fixed))
+      )
+    ).toEqual({lines: 2, files: 1})
+  })
+
+  test("can't measure changes without hunks", () => {
+    const current = splitDiff(
+      'diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ'
+    )
+    expect(measureInterdiff(computeInterdiff([], current)).lines).toBe(Infinity)
+  })
+})
+
+describe('evaluateSmallChange', () => {
+  const interdiff = computeInterdiff(reviewed, typo_fixed)
+
+  test('keeps changes within the limits', () => {
+    expect(evaluateSmallChange(interdiff, policy).exceeded).toBeNull()
+  })
+
+  test('dismisses changes above the line limit', () => {
+    expect(
+      evaluateSmallChange(interdiff, {...policy, max_lines: 1}).exceeded
+    ).toBe('2 changed lines exceed the limit of 1')
+  })
+
+  test('dismisses changes to files outside the allowed paths', () => {
+    expect(
+      evaluateSmallChange(interdiff, {...policy, paths: ['docs/**']}).exceeded
+    ).toBeNull()
+    expect(
+      evaluateSmallChange(interdiff, {...policy, paths: ['*.ts']}).exceeded
+    ).toBe('changes to docs/guide.md are not allowed')
+  })
+})
@@ -0,0 +1,120 @@
+import {expect, describe, test} from '@jest/globals'
+import {
+  CheckRunOptions,
+  checkRunConclusion,
+  renderCheckRunReport,
+} from '../src/check-run'
+import {DismissalResult, ReviewOutcome} from '../src/dismiss-if-stale'
+
+const options: CheckRunOptions = {
+  name: 'Stale approvals',
+  conclusion_on_dismissal: 'neutral',
+  conclusion_on_pessimistic: 'failure',
+}
+
+function outcome(overrides: Partial<ReviewOutcome>): ReviewOutcome {
+  return {
+    review_id: 1,
+    reviewer: 'alice',
+    is_stale: false,
+    method: 'range-diff',
+    reason: 'Range-diff shows no changes to commits since approval.',
+    range_diff: 'no code changes (No changes detected)',
+    changed_files: null,
+    interdiff: null,
+    ...overrides,
+  }
+}
+
+function result(reviews: ReviewOutcome[]): DismissalResult {
+  const stale = reviews.filter(review => review.is_stale)
+  const summary = stale[0] ?? reviews[reviews.length - 1]
+  return {
+    is_stale: stale.length > 0,
+    decision_method: summary?.method ?? 'not-evaluated',
+    reason: summary?.reason ?? '',
+    change_size: null,
+    dismissed_review_ids: stale.map(review => review.review_id),
+    failed_review_ids: [],
+    changed_files: [],
+    rerequested_reviewers: [],
+    rerequested_teams: [],
+    reviews,
+  }
+}
+
+const dismissed = outcome({
+  review_id: 2,
+  reviewer: 'bob',
+  is_stale: true,
+  method: 'two-dot',
+  reason: 'Code has changed, dismissing stale reviews.',
+  range_diff: 'code changes (1 modified), verified by diff comparison',
+  changed_files: ['src/a.ts'],
+  interdiff: [
+    {
+      path: 'src/a.ts',
+      added_hunks: ['@@ -1 +1 @@\n-a\n+c'],
+      removed_hunks: ['@@ -1 +1 @@\n-a\n+b'],
+    },
+  ],
+})
+
+describe('checkRunConclusion', () => {
+  test('succeeds if nothing was dismissed', () => {
+    expect(checkRunConclusion(result([outcome({})]), options)).toBe('success')
+  })
+
+  test('uses the configured conclusions, the most severe winning', () => {
+    expect(checkRunConclusion(result([dismissed]), options)).toBe('neutral')
+    expect(
+      checkRunConclusion(
+        result([dismissed, outcome({is_stale: true, method: 'pessimistic'})]),
+        options
+      )
+    ).toBe('failure')
+  })
+
+  test('fails if dismissals failed', () => {
+    expect(
+      checkRunConclusion(
+        {...result([dismissed]), failed_review_ids: [2]},
+        {...options, conclusion_on_dismissal: 'success'}
+      )
+    ).toBe('failure')
+  })
+})
+
+describe('renderCheckRunReport', () => {
+  test('reports the decision path and changed files of each approval', () => {
+    const {title, summary} = renderCheckRunReport({
+      result: result([outcome({}), dismissed]),
+      dry_run: false,
+      details_url: 'https://github.com/o/r/actions/runs/1',
+    })
+    expect(title).toBe('Dismissed 1 stale approval(s)')
+    expect(summary).toContain(
+      '**Decision:** Code has changed, dismissing stale reviews. (two-dot)'
+    )
+    expect(summary).toContain('### Review 1 by @alice: kept')
+    expect(summary).toContain('- **Diff comparison:** not needed')
+    expect(summary).toContain('### Review 2 by @bob: dismissed')
+    expect(summary).toContain(
+      '- **Range-diff:** code changes (1 modified), verified by diff comparison'
+    )
+    expect(summary).toContain(
+      '- **Diff comparison:** against the current two-dot diff'
+    )
+    expect(summary).toContain('| `src/a.ts` | 2 |')
+  })
+
+  test('reports when nothing was evaluated', () => {
+    expect(
+      renderCheckRunReport({
+        result: result([]),
+        dry_run: true,
+        details_url: '',
+      }).title
+    ).toBe('Not evaluated')
+  })
+})
@@ -0,0 +1,154 @@
+import {
+  expect,
+  describe,
+  test,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals'
+import {execSync} from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {evaluateLocally, formatDecision, runCli} from '../src/cli'
+
+describe('evaluateLocally', () => {
+  let repoPath: string
+
+  function git(command: string): string {
+    return execSync(`git ${command}`, {cwd: repoPath, encoding: 'utf8'}).trim()
+  }
+
+  function commitFile(filename: string, content: string): string {
+    fs.writeFileSync(path.join(repoPath, filename), content)
+    git(`add ${filename}`)
+    git(`commit -q -m "Update ${filename}"`)
+    return git('rev-parse HEAD')
+  }
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-test-'))
+    git('init -q -b main')
+    git('config user.email "test@test.com"')
+    git('config user.name "Test User"')
+    commitFile('README.md', '# Test Repo\n')
+  })
+
+  afterEach(() => {
+    fs.rmSync(repoPath, {recursive: true, force: true})
+  })
+
+  test('rebase without code changes → not stale via range-diff', () => {
+    git('checkout -q -b feature')
+    const approved_sha = commitFile('feature.ts', 'export const x = 1\n')
+    const prev_merge_base = git('merge-base main feature')
+    git('checkout -q main')
+    commitFile('other.ts', 'export const y = 2\n')
+    git('checkout -q feature')
+    git('rebase -q main')
+
+    const decision = evaluateLocally({
+      repo_path: repoPath,
+      approved_sha,
+      prev_merge_base,
+      head: git('rev-parse HEAD'),
+      base_ref: 'main',
+    })
+    expect(decision.is_stale).toBe(false)
+    expect(decision.method).toBe('range-diff')
+    expect(formatDecision(decision)).toContain('Verdict: NOT STALE')
+  })
+
+  test('new code changes → stale', () => {
+    git('checkout -q -b feature')
+    const approved_sha = commitFile('feature.ts', 'export const x = 1\n')
+    const prev_merge_base = git('merge-base main feature')
+    const head = commitFile('feature.ts', 'export const x = 2\n')
+
+    const decision = evaluateLocally({
+      repo_path: repoPath,
+      approved_sha,
+      prev_merge_base,
+      head,
+      base_ref: 'main',
+    })
+    expect(decision.is_stale).toBe(true)
+    expect(decision.range_diff?.status).toBe('unknown')
+    expect(decision.changed_files).toEqual(['feature.ts'])
+  })
+
+  test('squashed commits with the same net diff → not stale', () => {
+    git('checkout -q -b feature')
+    commitFile('feature.ts', 'export const x = 1\n')
+    const approved_sha = commitFile('feature.ts', 'export const x = 2\n')
+    const prev_merge_base = git('merge-base main feature')
+    git(`reset -q --soft ${prev_merge_base}`)
+    git('commit -q -m "Squashed"')
+
+    const decision = evaluateLocally({
+      repo_path: repoPath,
+      approved_sha,
+      prev_merge_base,
+      head: git('rev-parse HEAD'),
+      base_ref: 'main',
+    })
+    expect(decision.is_stale).toBe(false)
+    expect(decision.method).toBe('three-dot')
+  })
+})
+
+describe('runCli', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-test-'))
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    fs.rmSync(dir, {recursive: true, force: true})
+  })
+
+  test('exits with 2 on malformed metadata', () => {
+    const metadata = path.join(dir, 'approval-metadata.json')
+    fs.writeFileSync(metadata, '{"version": 1')
+    expect(runCli(['--metadata', metadata])).toBe(2)
+  })
+
+  test('exits with 2 on a missing reviewed diff', () => {
+    expect(
+      runCli([
+        '--approved-sha',
+        'approved',
+        '--prev-merge-base',
+        'base',
+        '--base-ref',
+        'main',
+        '--reviewed-diff',
+        path.join(dir, 'approved.diff'),
+      ])
+    ).toBe(2)
+  })
+  test('exits with 2 when git fails', () => {
+    const git = (command: string): string =>
+      execSync(`git ${command}`, {cwd: dir, encoding: 'utf8'}).trim()
+    git('init -q -b main')
+    git('config user.email "test@test.com"')
+    git('config user.name "Test User"')
+    git('commit -q --allow-empty -m "Initial commit"')
+    const head = git('rev-parse HEAD')
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true)
+    expect(
+      runCli([
+        '--repo',
+        dir,
+        '--approved-sha',
+        head,
+        '--prev-merge-base',
+        head,
+        '--base-ref',
+        'no-such-branch',
+      ])
+    ).toBe(2)
+  })
+})
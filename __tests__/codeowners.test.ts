@@ -0,0 +1,76 @@
+import {expect, describe, test} from '@jest/globals'
+import {Codeowners, parseCodeowners} from '../src/codeowners'
+
+const CODEOWNERS = `# Default owners
+*       @default-owner
+/frontend/ @frontend-dev @org/web # trailing comment
+backend/  @Backend-Dev
+*.md    docs@example.com
+/frontend/vendor/
+`
+
+describe('Codeowners', () => {
+  const teams: Record<string, string[]> = {'org/web': ['web-member']}
+  const codeowners = new Codeowners(
+    parseCodeowners(CODEOWNERS),
+    async (org, team_slug) => teams[`${org}/${team_slug}`] ?? []
+  )
+
+  test('the last matching rule wins', () => {
+    expect(codeowners.ownersOf('README')).toEqual(['@default-owner'])
+    expect(codeowners.ownersOf('frontend/app.ts')).toEqual([
+      '@frontend-dev',
+      '@org/web',
+    ])
+    expect(codeowners.ownersOf('services/backend/main.go')).toEqual([
+      '@Backend-Dev',
+    ])
+    expect(codeowners.ownersOf('frontend/vendor/lib.js')).toEqual([])
+  })
+
+  test('directory patterns without a trailing slash match the files in them', () => {
+    const rules = parseCodeowners(`*  @default-owner
+/apps/github @octocat
+docs @bob
+`)
+    const owners = new Codeowners(rules, async () => [])
+    expect(owners.ownersOf('apps/github/x.ts')).toEqual(['@octocat'])
+    expect(owners.ownersOf('apps/github')).toEqual(['@octocat'])
+    expect(owners.ownersOf('src/apps/github/x.ts')).toEqual(['@default-owner'])
+    expect(owners.ownersOf('docs/guide/intro.md')).toEqual(['@bob'])
+    expect(owners.ownersOf('src/docs/a.md')).toEqual(['@bob'])
+    expect(owners.ownersOf('docsite/a.md')).toEqual(['@default-owner'])
+  })
+
+  test('wildcards only match within their directory', () => {
+    const rules = parseCodeowners(`*  @default-owner
+docs/** @writers
+docs/* @docs
+`)
+    const owners = new Codeowners(rules, async () => [])
+    expect(owners.ownersOf('docs/a.md')).toEqual(['@docs'])
+    expect(owners.ownersOf('docs/sub/b.md')).toEqual(['@writers'])
+    expect(
+      new Codeowners(
+        parseCodeowners('*  @default-owner\ndocs/* @docs\n'),
+        async () => []
+      ).ownersOf('docs/sub/b.md')
+    ).toEqual(['@default-owner'])
+  })
+
+  test('ownership is by login (case-insensitive) or team membership', async () => {
+    expect(await codeowners.ownsAny('backend-dev', ['backend/a.go'])).toBe(true)
+    expect(await codeowners.ownsAny('web-member', ['frontend/a.ts'])).toBe(true)
+    expect(await codeowners.ownsAny('backend-dev', ['frontend/a.ts'])).toBe(
+      false
+    )
+    expect(await codeowners.ownsAny('someone', ['docs/a.md'])).toBe(false)
+  })
+
+  test('members of unresolvable teams are pessimistically owners', async () => {
+    const failing = new Codeowners(parseCodeowners(CODEOWNERS), async () => {
+      throw new Error('Not Found')
+    })
+    expect(await failing.ownsAny('anyone', ['frontend/a.ts'])).toBe(true)
+  })
+})
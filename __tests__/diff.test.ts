@@ -0,0 +1,122 @@
+import {expect, describe, test} from '@jest/globals'
+import {
+  canonicalizeDiff,
+  changedFiles,
+  ignoreWhitespaceChanges,
+  splitDiff,
+} from '../src/diff'
+
+describe('splitDiff', () => {
+  test('splits a diff into files', () => {
+    const diff = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1 +1 @@
+-a
++b
+diff --git a/old.ts b/new.ts
+similarity index 90%
+rename from old.ts
+rename to new.ts
+diff --git a/deleted.ts b/deleted.ts
+deleted file mode 100644
+--- a/deleted.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-gone
+diff --git a/my image.png b/my image.png
+Binary files a/my image.png and b/my image.png differ
+`
+    expect(splitDiff(diff).map(file => file.path)).toEqual([
+      'src/a.ts',
+      'new.ts',
+      'deleted.ts',
+      'my image.png',
+    ])
+  })
+})
+
+describe('canonicalizeDiff', () => {
+  const reviewed = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -10,3 +10,3 @@ function foo() {
+ context
+-old
++new
+`
+
+  test('ignores hunk offsets and context lines', () => {
+    const rebased = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -14,3 +14,3 @@ function foo() {
+ changed context
+-old
++new
+`
+    expect(canonicalizeDiff(rebased)).toBe(canonicalizeDiff(reviewed))
+  })
+
+  test('still detects changed lines', () => {
+    const changed = reviewed.replace('+new', '+newer')
+    expect(canonicalizeDiff(changed)).not.toBe(canonicalizeDiff(reviewed))
+    expect(
+      changedFiles(
+        splitDiff(canonicalizeDiff(changed)),
+        splitDiff(canonicalizeDiff(reviewed))
+      )
+    ).toEqual(['src/a.ts'])
+  })
+})
+
+describe('ignoreWhitespaceChanges', () => {
+  const api_diff = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,5 +1,6 @@
+ function foo() {
+-if (x) {
+-bar()
+-}
++  if (x) {\r
++    bar( )
++    baz()
++  }
++
+ }
+diff --git a/src/b.ts b/src/b.ts
+--- a/src/b.ts
++++ b/src/b.ts
+@@ -1 +1 @@
+-const b = 1 
++const b = 1
+`
+  // What `git diff -w --ignore-blank-lines` outputs for the same change.
+  const git_w_diff = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -2,3 +2,4 @@ function foo() {
+ if (x) {
+ bar()
++    baz()
+ }
+`
+
+  test('matches git diff -w output', () => {
+    expect(ignoreWhitespaceChanges(api_diff)).toBe(
+      ignoreWhitespaceChanges(git_w_diff)
+    )
+  })
+
+  test('drops files with whitespace-only changes', () => {
+    expect(ignoreWhitespaceChanges(api_diff)).not.toContain('src/b.ts')
+  })
+
+  test('keeps non-whitespace changes', () => {
+    const changed = git_w_diff.replace('baz()', 'qux()')
+    expect(ignoreWhitespaceChanges(changed)).not.toBe(
+      ignoreWhitespaceChanges(git_w_diff)
+    )
+  })
+})
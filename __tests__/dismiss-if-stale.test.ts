@@ -0,0 +1,447 @@
+import {expect, describe, test, jest, beforeEach} from '@jest/globals'
+import * as github from '@actions/github'
+import {
+  dismissIfStale,
+  findStackParent,
+  hasSkipLabel,
+  selectRerequestTargets,
+} from '../src/dismiss-if-stale'
+import {gitChangedBlobs, gitDiff} from '../src/git'
+import {MergedPullRequest, PullRequest, Review} from '../src/pull-request'
+import {describeApprovedFiles} from '../src/approval-metadata'
+import {Snapshot, SnapshotStore} from '../src/snapshot-store'
+
+jest.mock('../src/pull-request', () => ({
+  ...(jest.requireActual('../src/pull-request') as object),
+  PullRequest: jest.fn(),
+}))
+jest.mock('../src/prepared-repo', () => ({
+  ...(jest.requireActual('../src/prepared-repo') as object),
+  PreparedRepo: jest.fn(() => ({
+    repo_path: '/repo',
+    plan: () => undefined,
+    prepare: () => process.env,
+  })),
+}))
+jest.mock('../src/git', () => ({
+  ...(jest.requireActual('../src/git') as object),
+  gitDiff: jest.fn(),
+  gitChangedBlobs: jest.fn(),
+}))
+jest.mock('../src/range-diff', () => ({
+  ...(jest.requireActual('../src/range-diff') as object),
+  runRangeDiff: jest.fn(() => null),
+}))
+
+function review(id: number, login: string, type = 'User'): Review {
+  return {id, user: {login, type}} as Review
+}
+
+describe('selectRerequestTargets', () => {
+  test('re-requests each reviewer once and the teams they approved for', () => {
+    expect(
+      selectRerequestTargets({
+        reviews: [review(1, 'alice'), review(2, 'bob'), review(3, 'alice')],
+        review_teams: new Map([
+          [2, ['backend']],
+          [3, ['backend', 'infra']],
+        ]),
+        author: 'carol',
+      })
+    ).toEqual({
+      reviewers: ['alice', 'bob'],
+      team_reviewers: ['backend', 'infra'],
+    })
+  })
+
+  test('skips bots and the author', () => {
+    expect(
+      selectRerequestTargets({
+        reviews: [
+          review(1, 'renovate[bot]', 'Bot'),
+          review(2, 'carol'),
+          review(3, 'alice'),
+        ],
+        review_teams: new Map([[1, ['bots']]]),
+        author: 'carol',
+      })
+    ).toEqual({reviewers: ['alice'], team_reviewers: []})
+  })
+})
+
+describe('hasSkipLabel', () => {
+  const pullRequest = (labeler: string | null, role: string): PullRequest =>
+    ({
+      getLabeler: async () => labeler,
+      getRole: async () => role,
+    } as unknown as PullRequest)
+  const labels = [{name: 'bug'}, {name: 'stale-check:skip'}]
+
+  test('honors the label if a maintainer applied it', async () => {
+    expect(
+      await hasSkipLabel(
+        pullRequest('alice', 'maintain'),
+        labels,
+        'stale-check:skip'
+      )
+    ).toBe(true)
+  })
+
+  test('ignores the label if a writer applied it', async () => {
+    expect(
+      await hasSkipLabel(
+        pullRequest('bob', 'write'),
+        labels,
+        'stale-check:skip'
+      )
+    ).toBe(false)
+  })
+
+  test('ignores the label if the labeler is unknown', async () => {
+    expect(
+      await hasSkipLabel(pullRequest(null, 'admin'), labels, 'stale-check:skip')
+    ).toBe(false)
+  })
+
+  test('is false without the label', async () => {
+    expect(
+      await hasSkipLabel(
+        pullRequest('alice', 'admin'),
+        [{name: 'bug'}],
+        'stale-check:skip'
+      )
+    ).toBe(false)
+  })
+})
+
+describe('findStackParent', () => {
+  const parent = {
+    pull_number: 10,
+    head_sha: 'parent',
+    merge_commit_sha: 'merge',
+  }
+  const pullRequest = (merged: typeof parent | null): PullRequest =>
+    ({
+      getMergedPullRequest: async (head_ref: string, base_ref: string) =>
+        head_ref === 'feature-1' && base_ref === 'main' ? merged : null,
+    } as unknown as PullRequest)
+  const retargeted = {
+    action: 'edited',
+    changes: {base: {ref: {from: 'feature-1'}, sha: {from: 'old'}}},
+    pull_request: {number: 11, base: {ref: 'main'}},
+  }
+
+  test('finds the merged PR of the previous base branch', async () => {
+    expect(await findStackParent(pullRequest(parent), retargeted)).toEqual(
+      parent
+    )
+  })
+
+  test('is null if the previous base branch was not merged', async () => {
+    expect(await findStackParent(pullRequest(null), retargeted)).toBeNull()
+  })
+
+  test('is null if the base branch did not change', async () => {
+    expect(
+      await findStackParent(pullRequest(parent), {
+        action: 'synchronize',
+        pull_request: {number: 11, base: {ref: 'main'}},
+      })
+    ).toBeNull()
+  })
+})
+
+describe('dismissIfStale', () => {
+  const fileDiff = (line: string): string =>
+    [
+      'diff --git a/a.ts b/a.ts',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1 +1 @@',
+      '-old',
+      `+${line}`,
+      '',
+    ].join('\n')
+  const current = fileDiff('current')
+  const approvals = [review(1, 'alice'), review(2, 'bob'), review(3, 'dave')]
+  // Erin's snapshot has version 2 metadata describing each approved file.
+  const erin = review(4, 'erin')
+  const indexedDiff = (path: string, blob: string): string =>
+    [
+      `diff --git a/${path} b/${path}`,
+      `index 1111111..${blob} 100644`,
+      `--- a/${path}`,
+      `+++ b/${path}`,
+      '@@ -1 +1 @@',
+      '-old',
+      `+${blob}`,
+      '',
+    ].join('\n')
+  const approved_v2 =
+    indexedDiff('a.ts', 'aaaaaaa') + indexedDiff('b.ts', 'bbbbbbb')
+  // Alice approved the current diff, Bob an earlier one, and Dave's approval has no
+  // snapshot, so its reviewed diff is reconstructed from the API.
+  const snapshots: Record<number, Snapshot> = {
+    1: {metadata: null, diff: current},
+    2: {metadata: null, diff: fileDiff('earlier')},
+    4: {
+      metadata: JSON.stringify({
+        version: 2,
+        review_id: 4,
+        approved_sha: 'approved',
+        merge_base_sha: 'approval-merge-base',
+        base_sha: 'approval-base',
+        base_ref: 'main',
+        approved_at: '2024-01-01T00:00:00Z',
+        files: describeApprovedFiles(approved_v2),
+      }),
+      diff: approved_v2,
+    },
+  }
+  const load = jest.fn(
+    async (review_id: number): Promise<Snapshot> =>
+      snapshots[review_id] ?? {metadata: null, diff: null}
+  )
+  const snapshot_store: SnapshotStore = {
+    type: 'files',
+    per_review: true,
+    save: async () => {
+      throw new Error('Not implemented.')
+    },
+    load,
+  }
+  const pull_request = {
+    is_fork: false,
+    pull_number: 11,
+    getApprovedReviews: jest.fn(async () => approvals),
+    getMergeBase: jest.fn(async () => 'merge-base'),
+    getMergedPullRequest: jest.fn(
+      async (): Promise<MergedPullRequest | null> => null
+    ),
+    compareCommits: jest.fn(async (): Promise<string> => current),
+    getReviewedDiff: jest.fn(async () => current),
+    getReviewTeams: async () => new Map(),
+    dismissApprovals: jest.fn(async () => []),
+    requestReviewers: jest.fn(async () => undefined),
+    addLabel: jest.fn(async () => undefined),
+  }
+  const params = {
+    token: 'token',
+    api_url: 'https://api.github.com',
+    snapshot_store,
+    snapshot_signing_key: '',
+    repo_path: '/repo',
+    range_diff_fetch_depth: 0,
+    range_diff_max_fetch_depth: 0,
+    ignore_paths: [],
+    ignore_linguist_generated: false,
+    codeowners_aware: false,
+    non_owner_approvals: 'dismiss' as const,
+    small_change: {max_lines: 0, max_files: 0, paths: []},
+    diff_comparison: 'exact' as const,
+    ignore_whitespace: false,
+    comment_on_dismissal: false,
+    rerequest_reviews: true,
+    skip_label: '',
+    re_review_label: '',
+    dry_run: false,
+  }
+
+  beforeEach(() => {
+    jest
+      .mocked(PullRequest)
+      .mockImplementation(() => pull_request as unknown as PullRequest)
+    jest.mocked(gitDiff).mockReturnValue(current)
+    github.context.eventName = 'pull_request'
+    github.context.payload = {
+      action: 'synchronize',
+      pull_request: {
+        number: 11,
+        base: {ref: 'main', sha: 'base'},
+        head: {sha: 'head'},
+        labels: [],
+        user: {login: 'carol'},
+      },
+      repository: {
+        full_name: 'octo/repo',
+        name: 'repo',
+        owner: {login: 'octo'},
+      },
+    }
+  })
+
+  test('evaluates each approval against its own snapshot', async () => {
+    const result = await dismissIfStale(params)
+
+    expect(load.mock.calls).toEqual([[1], [2], [3]])
+    expect(pull_request.getReviewedDiff).toHaveBeenCalledTimes(1)
+    expect(pull_request.getReviewedDiff).toHaveBeenCalledWith(approvals[2])
+    expect(
+      result.reviews.map(({review_id, is_stale, method}) => ({
+        review_id,
+        is_stale,
+        method,
+      }))
+    ).toEqual([
+      {review_id: 1, is_stale: false, method: 'three-dot'},
+      {review_id: 2, is_stale: true, method: 'two-dot'},
+      {review_id: 3, is_stale: false, method: 'three-dot'},
+    ])
+  })
+
+  test('dismisses only the stale approvals', async () => {
+    const result = await dismissIfStale(params)
+
+    expect(pull_request.dismissApprovals).toHaveBeenCalledTimes(1)
+    expect(pull_request.dismissApprovals).toHaveBeenCalledWith(
+      'Code has changed, dismissing stale reviews.',
+      [approvals[1]]
+    )
+    expect(result.is_stale).toBe(true)
+    expect(result.dismissed_review_ids).toEqual([2])
+    expect(result.changed_files).toEqual(['a.ts'])
+    expect(result.rerequested_reviewers).toEqual(['bob'])
+  })
+
+  test('labels the PR for re-review on dismissal', async () => {
+    await dismissIfStale({...params, re_review_label: 'needs-re-review'})
+
+    expect(pull_request.addLabel).toHaveBeenCalledWith('needs-re-review')
+  })
+
+  test("doesn't dismiss, label or re-request reviews in a dry run", async () => {
+    const result = await dismissIfStale({
+      ...params,
+      re_review_label: 'needs-re-review',
+      dry_run: true,
+    })
+
+    expect(pull_request.dismissApprovals).not.toHaveBeenCalled()
+    expect(pull_request.addLabel).not.toHaveBeenCalled()
+    expect(pull_request.requestReviewers).not.toHaveBeenCalled()
+    expect(result.is_stale).toBe(true)
+    expect(result.dismissed_review_ids).toEqual([2])
+    expect(result.rerequested_reviewers).toEqual(['bob'])
+  })
+
+  test('lists the changed files from version 2 metadata without the current diff', async () => {
+    pull_request.getApprovedReviews.mockResolvedValueOnce([erin])
+    pull_request.compareCommits.mockRejectedValueOnce(
+      new Error('Diff too large')
+    )
+    jest.mocked(gitChangedBlobs).mockReturnValue([
+      {path: 'a.ts', head_blob_sha: 'aaaaaaa'.padEnd(40, '0')},
+      {path: 'b.ts', head_blob_sha: 'ccccccc'.padEnd(40, '0')},
+    ])
+
+    const result = await dismissIfStale(params)
+
+    expect(result.reviews).toMatchObject([
+      {review_id: 4, is_stale: true, method: 'pessimistic'},
+    ])
+    expect(result.reviews[0].changed_files).toEqual(['b.ts'])
+    expect(gitChangedBlobs).toHaveBeenCalledWith(
+      expect.objectContaining({base: 'merge-base', head: 'head'})
+    )
+  })
+
+  test('lists the changed files of the three-dot diff if the two-dot diff fails', async () => {
+    pull_request.getApprovedReviews.mockResolvedValueOnce([erin])
+    jest.mocked(gitDiff).mockReturnValue(null)
+    // Only a.ts changed in the PR; b.ts is listed by the two-dot diff because it
+    // changed on the base branch.
+    jest.mocked(gitChangedBlobs).mockImplementation(({base}) => [
+      {path: 'a.ts', head_blob_sha: 'ddddddd'},
+      {path: 'b.ts', head_blob_sha: base === 'base' ? 'eeeeeee' : 'bbbbbbb'},
+    ])
+
+    const result = await dismissIfStale(params)
+
+    expect(result.reviews).toMatchObject([
+      {review_id: 4, is_stale: true, method: 'pessimistic'},
+    ])
+    expect(result.reviews[0].changed_files).toEqual(['a.ts'])
+  })
+
+  describe('after the PR was retargeted', () => {
+    // Bob approved the PR's own changes while it was stacked on feature-1; now that
+    // it's based on main, the three-dot diff also shows feature-1's changes.
+    const parent = {
+      pull_number: 10,
+      head_sha: 'parent',
+      merge_commit_sha: 'merge',
+    }
+    const stacked = fileDiff('earlier')
+
+    beforeEach(() => {
+      github.context.payload = {
+        ...github.context.payload,
+        action: 'edited',
+        changes: {base: {ref: {from: 'feature-1'}, sha: {from: 'old'}}},
+      }
+    })
+
+    test("diffs against the merged parent's head if the PR is based on it", async () => {
+      pull_request.getMergedPullRequest.mockResolvedValueOnce(parent)
+      pull_request.getMergeBase.mockResolvedValueOnce('parent')
+      pull_request.compareCommits
+        .mockResolvedValueOnce(current)
+        .mockResolvedValueOnce(stacked)
+
+      const result = await dismissIfStale(params)
+
+      expect(pull_request.getMergedPullRequest).toHaveBeenCalledWith(
+        'feature-1',
+        'main'
+      )
+      expect(pull_request.compareCommits).toHaveBeenLastCalledWith(
+        'parent',
+        'head'
+      )
+      expect(result.reviews[1]).toMatchObject({
+        review_id: 2,
+        is_stale: false,
+        method: 'stacked',
+      })
+      expect(pull_request.dismissApprovals).not.toHaveBeenCalled()
+    })
+
+    test("diffs against the parent's merge commit if the PR isn't based on its head", async () => {
+      pull_request.getMergedPullRequest.mockResolvedValueOnce(parent)
+      jest
+        .mocked(gitDiff)
+        .mockImplementation(({base}) => (base === 'merge' ? stacked : current))
+
+      const result = await dismissIfStale(params)
+
+      expect(gitDiff).toHaveBeenCalledWith(
+        expect.objectContaining({base: 'merge', head: 'head'})
+      )
+      expect(gitDiff).not.toHaveBeenCalledWith(
+        expect.objectContaining({base: 'base'})
+      )
+      expect(result.reviews[1]).toMatchObject({
+        review_id: 2,
+        is_stale: false,
+        method: 'stacked',
+      })
+      expect(pull_request.dismissApprovals).not.toHaveBeenCalled()
+    })
+
+    test('falls back to the two-dot diff if the previous base was not merged', async () => {
+      const result = await dismissIfStale(params)
+
+      expect(pull_request.getMergedPullRequest).toHaveBeenCalledTimes(1)
+      expect(pull_request.compareCommits).toHaveBeenCalledTimes(1)
+      expect(gitDiff).toHaveBeenCalledWith(
+        expect.objectContaining({base: 'base', head: 'head'})
+      )
+      expect(result.reviews[1]).toMatchObject({
+        review_id: 2,
+        is_stale: true,
+        method: 'two-dot',
+      })
+      expect(result.dismissed_review_ids).toEqual([2])
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import {expect, describe, test, beforeEach, afterEach} from '@jest/globals'
+import {execSync} from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {PayloadRepository} from '@actions/github/lib/interfaces'
+import {ensureRepo, gitFetch} from '../src/git'
+
+describe('gitFetch', () => {
+  let dir: string
+  let origin: string
+  let base_sha: string
+  let fork_sha: string
+
+  const git = (cwd: string, cmd: string): string =>
+    execSync(`git ${cmd}`, {cwd, encoding: 'utf8', stdio: 'pipe'}).trim()
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-test-'))
+    origin = path.join(dir, 'origin.git')
+    execSync(`git init -q --bare -b main ${origin}`)
+
+    // The fork's commit is only reachable from the PR's ref, like on GitHub.
+    const work = path.join(dir, 'work')
+    execSync(`git init -q -b main ${work}`)
+    git(work, 'config user.email test@example.com')
+    git(work, 'config user.name Test')
+    fs.writeFileSync(path.join(work, 'a.txt'), 'base\n')
+    git(work, 'add a.txt')
+    git(work, 'commit -q -m base')
+    base_sha = git(work, 'rev-parse HEAD')
+    fs.writeFileSync(path.join(work, 'a.txt'), 'fork\n')
+    git(work, 'commit -q -am fork')
+    fork_sha = git(work, 'rev-parse HEAD')
+    git(work, `push -q ${origin} ${base_sha}:refs/heads/main`)
+    git(work, `push -q ${origin} ${fork_sha}:refs/pull/7/head`)
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true, force: true})
+  })
+
+  test('fetches the head of a PR from a fork through its ref', () => {
+    const repo_path = path.join(dir, 'clone')
+    execSync(`git clone -q --depth=1 file://${origin} ${repo_path}`, {
+      stdio: 'ignore',
+    })
+    gitFetch({
+      repo_path,
+      shas: [base_sha, fork_sha],
+      depth: 1,
+      pull_head: {pull_number: 7, sha: fork_sha},
+    })
+    expect(git(repo_path, `rev-parse ${fork_sha}^{commit}`)).toBe(fork_sha)
+    expect(git(repo_path, 'rev-parse refs/remotes/origin/pull/7/head')).toBe(
+      fork_sha
+    )
+    // Nothing of the fork is checked out.
+    expect(git(repo_path, 'rev-parse HEAD')).toBe(base_sha)
+    expect(fs.readFileSync(path.join(repo_path, 'a.txt'), 'utf8')).toBe(
+      'base\n'
+    )
+  })
+})
+
+describe('ensureRepo', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true, force: true})
+  })
+
+  test('sets up the repository with the token scoped to its config', () => {
+    const repo_path = path.join(dir, 'repo')
+    ensureRepo({
+      repo_path,
+      token: 'secret',
+      repository: {full_name: 'octo/repo'} as PayloadRepository,
+      server_url: 'https://github.example.com/',
+    })
+    const config = (key: string): string =>
+      execSync(`git config --local --get ${key}`, {
+        cwd: repo_path,
+        encoding: 'utf8',
+      }).trim()
+    expect(config('remote.origin.url')).toBe(
+      'https://github.example.com/octo/repo'
+    )
+    expect(config('http.https://github.example.com/.extraheader')).toBe(
+      `AUTHORIZATION: basic ${Buffer.from('x-access-token:secret').toString(
+        'base64'
+      )}`
+    )
+  })
+  test('initializes an existing directory which is not a repository', () => {
+    ensureRepo({
+      repo_path: dir,
+      token: 'secret',
+      repository: {full_name: 'octo/repo'} as PayloadRepository,
+      server_url: 'https://github.com',
+    })
+    expect(
+      execSync('git config --local --get remote.origin.url', {
+        cwd: dir,
+        encoding: 'utf8',
+      }).trim()
+    ).toBe('https://github.com/octo/repo')
+  })
+
+  test('uses an existing repository as is', () => {
+    execSync('git init --quiet', {cwd: dir})
+    ensureRepo({
+      repo_path: dir,
+      token: 'secret',
+      repository: {full_name: 'octo/repo'} as PayloadRepository,
+      server_url: 'https://github.com',
+    })
+    expect(execSync('git remote', {cwd: dir, encoding: 'utf8'}).trim()).toBe('')
+  })
+})
@@ -0,0 +1,124 @@
+import {expect, describe, test} from '@jest/globals'
+import {changedFiles} from '../src/diff'
+import {buildIgnoreMatcher, filterDiff} from '../src/ignore-paths'
+import {parseRangeDiffOutput} from '../src/range-diff'
+
+const diff = `diff --git a/package-lock.json b/package-lock.json
+--- a/package-lock.json
++++ b/package-lock.json
+@@ -1 +1 @@
+-"version": "1.0.0"
++"version": "1.0.1"
+diff --git a/src/index.ts b/src/index.ts
+--- a/src/index.ts
++++ b/src/index.ts
+@@ -1 +1 @@
+-old()
++newCode()
+`
+
+describe('buildIgnoreMatcher', () => {
+  test('patterns without a slash match at any depth', () => {
+    const isIgnored = buildIgnoreMatcher({
+      ignore_paths: ['package-lock.json', '*.snap'],
+      gitattributes: null,
+    })
+    expect(isIgnored('package-lock.json')).toBe(true)
+    expect(isIgnored('web/package-lock.json')).toBe(true)
+    expect(isIgnored('src/__snapshots__/a.test.ts.snap')).toBe(true)
+    expect(isIgnored('src/index.ts')).toBe(false)
+  })
+
+  test('patterns with a leading slash are anchored', () => {
+    const isIgnored = buildIgnoreMatcher({
+      ignore_paths: ['/gen/', 'proto/**/*.pb.go'],
+      gitattributes: null,
+    })
+    expect(isIgnored('gen/a.ts')).toBe(true)
+    expect(isIgnored('src/gen/a.ts')).toBe(false)
+    expect(isIgnored('proto/v1/api.pb.go')).toBe(true)
+  })
+
+  test('patterns which match a directory match the files in it', () => {
+    const isIgnored = buildIgnoreMatcher({
+      ignore_paths: ['dist', '/generated'],
+      gitattributes: null,
+    })
+    expect(isIgnored('dist/index.js')).toBe(true)
+    expect(isIgnored('web/dist/index.js')).toBe(true)
+    expect(isIgnored('generated/a.ts')).toBe(true)
+    expect(isIgnored('generated/v1/a.ts')).toBe(true)
+    expect(isIgnored('src/generated/a.ts')).toBe(false)
+    expect(isIgnored('distribution/a.ts')).toBe(false)
+  })
+
+  test('honors linguist-generated with the last matching line winning', () => {
+    const isIgnored = buildIgnoreMatcher({
+      ignore_paths: [],
+      gitattributes: `# generated code
+*.pb.go linguist-generated=true
+dist/** linguist-generated
+dist/keep.js -linguist-generated
+*.ts text eol=lf
+`,
+    })
+    expect(isIgnored('proto/api.pb.go')).toBe(true)
+    expect(isIgnored('dist/index.js')).toBe(true)
+    expect(isIgnored('dist/keep.js')).toBe(false)
+    expect(isIgnored('src/index.ts')).toBe(false)
+  })
+
+  test("linguist-generated doesn't apply to the files in a directory", () => {
+    const isIgnored = buildIgnoreMatcher({
+      ignore_paths: [],
+      gitattributes: 'vendor linguist-generated\n',
+    })
+    expect(isIgnored('vendor')).toBe(true)
+    expect(isIgnored('vendor/lib.js')).toBe(false)
+  })
+})
+
+describe('filterDiff', () => {
+  const isIgnored = buildIgnoreMatcher({
+    ignore_paths: ['package-lock.json'],
+    gitattributes: null,
+  })
+
+  test('removes ignored file sections', () => {
+    const result = filterDiff(diff, isIgnored)
+    expect(result.diff).not.toContain('package-lock.json')
+    expect(result.diff).toContain('+newCode()')
+    expect(result.ignored.map(file => file.path)).toEqual(['package-lock.json'])
+  })
+
+  test('filtered diffs compare equal when only ignored files differ', () => {
+    const without_lockfile = diff.slice(diff.indexOf('diff --git a/src'))
+    expect(filterDiff(diff, isIgnored).diff).toBe(
+      filterDiff(without_lockfile, isIgnored).diff
+    )
+  })
+
+  test('changedFiles lists ignored files whose changes differ', () => {
+    const reviewed = filterDiff(diff, isIgnored).ignored
+    const current = filterDiff(diff.replace('1.0.1', '1.0.2'), isIgnored)
+    expect(changedFiles(reviewed, current.ignored)).toEqual([
+      'package-lock.json',
+    ])
+    expect(changedFiles(reviewed, reviewed)).toEqual([])
+  })
+})
+
+describe('parseRangeDiffOutput with ignored paths', () => {
+  test('changes only to ignored files → not stale', () => {
+    const output = `1:  abc1234 ! 1:  def5678 Bump deps
+    @@ package-lock.json @@
+     -old
+     +new`
+    const isIgnored = buildIgnoreMatcher({
+      ignore_paths: ['package-lock.json'],
+      gitattributes: null,
+    })
+    expect(parseRangeDiffOutput(output, isIgnored).status).toBe('not_stale')
+    expect(parseRangeDiffOutput(output).status).toBe('stale')
+  })
+})
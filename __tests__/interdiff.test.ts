@@ -0,0 +1,77 @@
+import {expect, describe, test} from '@jest/globals'
+import {splitDiff} from '../src/diff'
+import {
+  INTERDIFF_COMMENT_MARKER,
+  computeInterdiff,
+  renderInterdiffComment,
+} from '../src/interdiff'
+
+const reviewed = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,2 +1,2 @@
+ context
+-old
++new
+@@ -10,2 +10,2 @@
+ context
+-second
++second changed
+`
+
+describe('computeInterdiff', () => {
+  test('reports added and removed hunks, ignoring shifted offsets', () => {
+    const current = reviewed
+      .replace('@@ -10,2 +10,2 @@', '@@ -12,2 +12,2 @@')
+      .replace('+new', '+newer')
+    const interdiff = computeInterdiff(splitDiff(reviewed), splitDiff(current))
+    expect(interdiff).toHaveLength(1)
+    expect(interdiff[0].path).toBe('src/a.ts')
+    expect(interdiff[0].added_hunks).toHaveLength(1)
+    expect(interdiff[0].added_hunks[0]).toContain('+newer')
+    expect(interdiff[0].removed_hunks).toHaveLength(1)
+    expect(interdiff[0].removed_hunks[0]).toContain('+new')
+  })
+
+  test('reports files only in one of the diffs', () => {
+    const interdiff = computeInterdiff([], splitDiff(reviewed))
+    expect(interdiff[0].added_hunks).toHaveLength(2)
+    expect(interdiff[0].removed_hunks).toHaveLength(0)
+  })
+})
+
+describe('renderInterdiffComment', () => {
+  test('renders a marked comment with collapsible files', () => {
+    const body = renderInterdiffComment({
+      sections: [
+        {
+          heading: 'Review 1 by @alice',
+          range_diff_summary: 'Commits changed: 1 with code changes',
+          interdiff: computeInterdiff([], splitDiff(reviewed)),
+        },
+      ],
+      artifacts_url: null,
+    })
+    expect(body.startsWith(INTERDIFF_COMMENT_MARKER)).toBe(true)
+    expect(body).toContain('Range-diff: Commits changed: 1 with code changes')
+    expect(body).toContain('<summary><code>src/a.ts</code>: 2 hunk(s) added')
+    expect(body).toContain('```diff\n@@ -1,2 +1,2 @@')
+  })
+
+  test('truncates large interdiffs and links to the artifacts', () => {
+    const huge = reviewed.replace('+new', `+${'x'.repeat(70000)}`)
+    const body = renderInterdiffComment({
+      sections: [
+        {
+          heading: 'Review 1 by @alice',
+          range_diff_summary: null,
+          interdiff: computeInterdiff([], splitDiff(huge)),
+        },
+      ],
+      artifacts_url: 'https://github.com/o/r/actions/runs/1',
+    })
+    expect(body.length).toBeLessThan(65536)
+    expect(body).toContain('truncated')
+    expect(body).toContain('(https://github.com/o/r/actions/runs/1)')
+  })
+})
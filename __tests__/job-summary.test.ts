@@ -0,0 +1,76 @@
+import {expect, describe, test, afterEach} from '@jest/globals'
+import * as core from '@actions/core'
+import {
+  addApprovalsSummary,
+  addRangeDiffSummary,
+  describeDiffSize,
+} from '../src/job-summary'
+import {Review} from '../src/pull-request'
+
+afterEach(() => {
+  core.summary.emptyBuffer()
+})
+
+describe('describeDiffSize', () => {
+  test('counts the files and changed lines', () => {
+    const diff = [
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1,2 +1,2 @@',
+      ' same',
+      '-old',
+      '+new',
+      '+more',
+      '',
+    ].join('\n')
+    expect(describeDiffSize(diff)).toBe(
+      `1 file(s), +2 -1 lines, ${diff.length} bytes`
+    )
+    expect(describeDiffSize(null)).toBe('unavailable')
+  })
+})
+
+describe('addApprovalsSummary', () => {
+  test('lists the approvals with their snapshots', () => {
+    addApprovalsSummary([
+      {
+        review: {
+          id: 1,
+          user: {login: 'alice'},
+          commit_id: '0123456789abcdef',
+          submitted_at: '2024-01-02T03:04:05Z',
+        } as Review,
+        snapshot: 'cached diff',
+      },
+    ])
+    const html = core.summary.stringify()
+    expect(html).toContain('<th>Snapshot</th>')
+    expect(html).toContain(
+      '<td>1</td><td>alice</td><td><code>0123456789ab</code></td>' +
+        '<td>2024-01-02T03:04:05Z</td><td>cached diff</td>'
+    )
+  })
+})
+
+describe('addRangeDiffSummary', () => {
+  test('tables the commit pairs', () => {
+    addRangeDiffSummary('code changes (1 with code changes)', [
+      {
+        marker: '!',
+        approved_sha: 'abc1234',
+        current_sha: 'def5678',
+        subject: 'Fix <thing>',
+        code_changed: true,
+      },
+    ])
+    const html = core.summary.stringify()
+    expect(html).toContain(
+      '<b>Range-diff:</b> code changes (1 with code changes)'
+    )
+    expect(html).toContain(
+      '<td><code>abc1234</code></td><td><code>def5678</code></td>' +
+        '<td>modified (code)</td><td>Fix &lt;thing&gt;</td>'
+    )
+  })
+})
@@ -1,4 +1,11 @@
-import {expect, test} from '@jest/globals'
+import {expect, describe, test, jest} from '@jest/globals'
+import * as core from '@actions/core'
+import {DismissalResult, dismissIfStale} from '../src/dismiss-if-stale'
+
+jest.mock('../src/dismiss-if-stale', () => ({
+  ...(jest.requireActual('../src/dismiss-if-stale') as object),
+  dismissIfStale: jest.fn(),
+}))
 
 test('hello world', async () => {
   expect(true).toBeTruthy()
@@ -15,3 +22,69 @@ test('hello world', async () => {
 //   }
 //   console.log(cp.execFileSync(np, [ip], options).toString())
 // })
+
+// Set the action's inputs as the runner does.
+function setInputs(inputs: Record<string, string>): void {
+  for (const [name, value] of Object.entries(inputs)) {
+    process.env[`INPUT_${name.toUpperCase()}`] = value
+  }
+}
+
+describe('dismiss-stale-reviews mode', () => {
+  test('sets the outputs from the dismissal result', async () => {
+    setInputs({
+      mode: 'dismiss-stale-reviews',
+      token: 'token',
+      path_to_cached_diff: 'approved.diff',
+      repo_path: '/repo',
+      range_diff_fetch_depth: '0',
+      range_diff_max_fetch_depth: '0',
+      ignore_linguist_generated: 'false',
+      codeowners_aware: 'false',
+      non_owner_approvals: 'dismiss',
+      small_change_max_lines: '0',
+      small_change_max_files: '0',
+      diff_comparison: 'exact',
+      ignore_whitespace: 'false',
+      comment_on_dismissal: 'false',
+      rerequest_reviews: 'true',
+      dry_run: 'true',
+    })
+    const result: DismissalResult = {
+      is_stale: true,
+      decision_method: 'two-dot',
+      reason: 'Code has changed, dismissing stale reviews.',
+      change_size: {lines: 2, files: 1},
+      dismissed_review_ids: [2],
+      failed_review_ids: [],
+      changed_files: ['a.ts'],
+      rerequested_reviewers: ['bob'],
+      rerequested_teams: ['backend'],
+      reviews: [],
+    }
+    jest.mocked(dismissIfStale).mockResolvedValue(result)
+    const outputs: Record<string, unknown> = {}
+    jest.spyOn(core, 'setOutput').mockImplementation((name, value) => {
+      outputs[name] = value
+    })
+
+    await import('../src/main')
+    // Let run() finish with the mocked dismissal.
+    await new Promise(resolve => setImmediate(resolve))
+
+    expect(dismissIfStale).toHaveBeenCalledWith(
+      expect.objectContaining({dry_run: true, rerequest_reviews: true})
+    )
+    expect(outputs).toEqual({
+      is_stale: 'true',
+      decision_method: 'two-dot',
+      reason: 'Code has changed, dismissing stale reviews.',
+      change_size: '{"lines":2,"files":1}',
+      dismissed_review_ids: '[2]',
+      changed_files: '["a.ts"]',
+      rerequested_reviewers: '["bob"]',
+      rerequested_teams: '["backend"]',
+      failed_review_ids: '[]',
+    })
+  })
+})
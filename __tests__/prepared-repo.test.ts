@@ -0,0 +1,110 @@
+import {expect, describe, test, beforeEach, afterEach} from '@jest/globals'
+import {execSync} from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {PayloadRepository} from '@actions/github/lib/interfaces'
+import {gitDiff} from '../src/git'
+import {PreparedRepo} from '../src/prepared-repo'
+
+describe('PreparedRepo', () => {
+  let dir: string
+  let repo_path: string
+  let shas: string[]
+
+  const git = (cwd: string, cmd: string): string =>
+    execSync(`git ${cmd}`, {cwd, encoding: 'utf8', stdio: 'pipe'}).trim()
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prepared-repo-test-'))
+    const work = path.join(dir, 'work')
+    execSync(`git init -q -b main ${work}`)
+    git(work, 'config user.email test@example.com')
+    git(work, 'config user.name Test')
+    shas = []
+    for (const content of ['one', 'two', 'three']) {
+      fs.writeFileSync(path.join(work, 'a.txt'), `${content}\n`)
+      fs.writeFileSync(path.join(work, `${content}.txt`), `${content}\n`)
+      git(work, 'add .')
+      git(work, `commit -q -m ${content}`)
+      shas.push(git(work, 'rev-parse HEAD'))
+    }
+    const origin = path.join(dir, 'origin.git')
+    execSync(`git clone -q --bare ${work} ${origin}`, {stdio: 'ignore'})
+    git(origin, 'config uploadpack.allowFilter true')
+    git(origin, 'config uploadpack.allowAnySHA1InWant true')
+
+    // An existing repository is used as is, so point it at the local origin.
+    repo_path = path.join(dir, 'repo')
+    execSync(`git init -q ${repo_path}`)
+    git(repo_path, `remote add origin file://${origin}`)
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true, force: true})
+  })
+
+  function prepared(max_depth = 0): PreparedRepo {
+    return new PreparedRepo({
+      repo_path,
+      token: 'token',
+      repository: {full_name: 'octo/repo'} as PayloadRepository,
+      pull_head: null,
+      max_depth,
+    })
+  }
+
+  test('fetches the planned commits without their blobs', () => {
+    const repo = prepared()
+    repo.plan([shas[0], shas[2]], 0)
+    repo.prepare([shas[2]])
+
+    expect(git(repo_path, `rev-list --count ${shas[2]}`)).toBe('3')
+    const missing = git(
+      repo_path,
+      `rev-list --objects --missing=print ${shas[2]}`
+    )
+      .split('\n')
+      .filter(line => line.startsWith('?'))
+    expect(missing.length).toBeGreaterThan(0)
+
+    // Blobs are fetched on demand.
+    expect(gitDiff({repo_path, base: shas[0], head: shas[2]})).toContain(
+      '+three'
+    )
+  })
+
+  test('falls back to the needed commits if a planned commit is gone', () => {
+    const repo = prepared()
+    repo.plan(['0'.repeat(40)], 0)
+    repo.prepare([shas[1]])
+    expect(git(repo_path, `rev-parse ${shas[1]}^{commit}`)).toBe(shas[1])
+  })
+
+  test('deepens the history until the ranges are complete', () => {
+    const repo = prepared()
+    repo.prepare([shas[0], shas[2]], 1)
+    const range = {base: shas[0], tip: shas[2]}
+    expect(repo.deepenUntilConnected([range], 1)).toEqual({
+      connected: true,
+      depth: 4,
+    })
+    expect(git(repo_path, `rev-list --count ${shas[0]}..${shas[2]}`)).toBe('2')
+  })
+
+  test('gives up on deepening at the maximum depth', () => {
+    const repo = prepared(2)
+    repo.prepare([shas[0], shas[2]], 1)
+    expect(
+      repo.deepenUntilConnected([{base: shas[0], tip: shas[2]}], 1)
+    ).toEqual({connected: false, reason: 'max-depth'})
+  })
+
+  test("doesn't deepen a complete history whose base isn't an ancestor", () => {
+    const repo = prepared(8)
+    repo.prepare([shas[0], shas[2]], 0)
+    expect(
+      repo.deepenUntilConnected([{base: shas[2], tip: shas[0]}], 1)
+    ).toEqual({connected: false, reason: 'not-ancestor'})
+  })
+})
@@ -0,0 +1,160 @@
+import {expect, describe, test, jest, beforeEach} from '@jest/globals'
+import * as github from '@actions/github'
+import {PullRequest, Review} from '../src/pull-request'
+
+const approval = {
+  id: 1,
+  commit_id: 'approved',
+  submitted_at: '2024-01-02T00:00:00Z',
+} as Review
+
+beforeEach(() => {
+  github.context.payload = {
+    repository: {full_name: 'octo/repo', name: 'repo', owner: {login: 'octo'}},
+  }
+})
+
+// Mock the PR's issue events and its BaseRefChangedEvents from the GraphQL API, and
+// compare commits by returning the basehead.
+function pullRequest({
+  events,
+  base_ref_changes,
+}: {
+  events: {event: string; created_at: string}[]
+  base_ref_changes: {createdAt: string; previousRefName: string}[] | Error
+}): {pull_request: PullRequest; graphql: ReturnType<typeof jest.fn>} {
+  const pull_request = new PullRequest('token', {
+    api_url: 'https://api.github.com',
+    pull_request: {pull_number: 11, base_ref: 'main'},
+  })
+  jest
+    .spyOn(pull_request, 'getEvents')
+    .mockResolvedValue(events as Awaited<ReturnType<PullRequest['getEvents']>>)
+  jest
+    .spyOn(pull_request, 'compareCommits')
+    .mockImplementation(async (base, head) => `${base}...${head}`)
+  const graphql = jest.fn(async () => {
+    if (base_ref_changes instanceof Error) {
+      throw base_ref_changes
+    }
+    return {
+      repository: {
+        pullRequest: {
+          timelineItems: {
+            nodes: base_ref_changes.map(change => ({
+              ...change,
+              currentRefName: 'main',
+            })),
+            pageInfo: {hasNextPage: false, endCursor: null},
+          },
+        },
+      },
+    }
+  })
+  pull_request.octokit.graphql =
+    graphql as unknown as PullRequest['octokit']['graphql']
+  return {pull_request, graphql}
+}
+
+describe('getReviewedDiff', () => {
+  test('diffs against the target branch at approval time if it changed since', async () => {
+    const {pull_request} = pullRequest({
+      events: [
+        {event: 'reviewed', created_at: '2024-01-02T00:00:00Z'},
+        {event: 'base_ref_changed', created_at: '2024-01-03T00:00:00Z'},
+      ],
+      base_ref_changes: [
+        {createdAt: '2024-01-01T00:00:00Z', previousRefName: 'old'},
+        {createdAt: '2024-01-03T00:00:00Z', previousRefName: 'feature-1'},
+      ],
+    })
+    expect(await pull_request.getReviewedDiff(approval)).toBe(
+      'feature-1...approved'
+    )
+  })
+
+  test('diffs against the current target branch if it changed before approval', async () => {
+    const {pull_request, graphql} = pullRequest({
+      events: [
+        {event: 'base_ref_changed', created_at: '2024-01-01T00:00:00Z'},
+        {event: 'reviewed', created_at: '2024-01-02T00:00:00Z'},
+      ],
+      base_ref_changes: [
+        {createdAt: '2024-01-01T00:00:00Z', previousRefName: 'old'},
+      ],
+    })
+    expect(await pull_request.getReviewedDiff(approval)).toBe('main...approved')
+    expect(graphql).not.toHaveBeenCalled()
+  })
+
+  test('diffs against the current target branch if it never changed', async () => {
+    const {pull_request, graphql} = pullRequest({
+      events: [{event: 'reviewed', created_at: '2024-01-02T00:00:00Z'}],
+      base_ref_changes: [],
+    })
+    expect(await pull_request.getReviewedDiff(approval)).toBe('main...approved')
+    expect(graphql).not.toHaveBeenCalled()
+  })
+
+  test("is null if the target branch at approval time can't be looked up", async () => {
+    const {pull_request} = pullRequest({
+      events: [{event: 'base_ref_changed', created_at: '2024-01-03T00:00:00Z'}],
+      base_ref_changes: new Error('Resource not accessible by integration'),
+    })
+    expect(await pull_request.getReviewedDiff(approval)).toBeNull()
+  })
+})
+
+describe('getBaseRefAt', () => {
+  test('is the branch the first later change changed from', async () => {
+    const {pull_request} = pullRequest({
+      events: [],
+      base_ref_changes: [
+        {createdAt: '2024-01-01T00:00:00Z', previousRefName: 'old'},
+        {createdAt: '2024-01-03T00:00:00Z', previousRefName: 'feature-1'},
+        {createdAt: '2024-01-04T00:00:00Z', previousRefName: 'feature-2'},
+      ],
+    })
+    expect(await pull_request.getBaseRefAt('2024-01-02T00:00:00Z')).toBe(
+      'feature-1'
+    )
+  })
+
+  test('is the current target branch without later changes', async () => {
+    const {pull_request} = pullRequest({
+      events: [],
+      base_ref_changes: [
+        {createdAt: '2024-01-01T00:00:00Z', previousRefName: 'old'},
+      ],
+    })
+    expect(await pull_request.getBaseRefAt('2024-01-02T00:00:00Z')).toBe('main')
+  })
+
+  test('is the current target branch without any changes', async () => {
+    const {pull_request} = pullRequest({events: [], base_ref_changes: []})
+    expect(await pull_request.getBaseRefAt('2024-01-02T00:00:00Z')).toBe('main')
+  })
+})
+
+describe('removeLabel', () => {
+  const pull_request = (): PullRequest =>
+    new PullRequest('token', {
+      api_url: 'https://api.github.com',
+      pull_request: {pull_number: 11, base_ref: 'main'},
+    })
+
+  test('tolerates the label not being on the PR', async () => {
+    const pr = pull_request()
+    jest
+      .spyOn(pr.octokit.rest.issues, 'removeLabel')
+      .mockRejectedValue(Object.assign(new Error('Not Found'), {status: 404}))
+    await expect(pr.removeLabel('needs-re-review')).resolves.toBeUndefined()
+  })
+
+  test('throws other errors', async () => {
+    const pr = pull_request()
+    const error = Object.assign(new Error('Forbidden'), {status: 403})
+    jest.spyOn(pr.octokit.rest.issues, 'removeLabel').mockRejectedValue(error)
+    await expect(pr.removeLabel('needs-re-review')).rejects.toBe(error)
+  })
+})
@@ -3,6 +3,7 @@ import {execSync} from 'child_process'
 import * as fs from 'fs'
 import * as os from 'os'
 import * as path from 'path'
+import {buildIgnoreMatcher} from '../src/ignore-paths'
 import {runRangeDiff, parseRangeDiffOutput} from '../src/range-diff'
 
 /**
@@ -263,6 +264,79 @@ describe('range-diff integration', () => {
     expect(result.status).not.toBe('not_stale')
   })
 
+  test('code change after an ignored file in an amended commit → stale', () => {
+    // Range-diff labels a hunk with the closest file header above it, so a change to
+    // x.ts in a commit which also changes package-lock.json is labelled
+    // "@@ package-lock.json" and must still count as a code change.
+    const mainSha = getHead()
+    execSync('git checkout -b feature', {cwd: repoPath, stdio: 'ignore'})
+    fs.writeFileSync(path.join(repoPath, 'package-lock.json'), '{}\n')
+    fs.writeFileSync(path.join(repoPath, 'x.ts'), 'a\nb\nc\n')
+    execSync('git add package-lock.json x.ts', {cwd: repoPath})
+    execSync('git commit -m "Change"', {cwd: repoPath, stdio: 'ignore'})
+    const originalSha = getHead()
+
+    fs.writeFileSync(path.join(repoPath, 'x.ts'), 'a\nEVIL\nc\n')
+    execSync('git add x.ts', {cwd: repoPath})
+    execSync('git commit --amend -m "Change"', {
+      cwd: repoPath,
+      stdio: 'ignore',
+    })
+    const amendedSha = getHead()
+
+    const output = runRangeDiff({
+      repoPath,
+      prevMergeBase: mainSha,
+      approvedSha: originalSha,
+      currMergeBase: mainSha,
+      currentHead: amendedSha,
+    })
+    expect(output).not.toBeNull()
+    expect(output).toContain('@@ package-lock.json')
+    const isIgnoredPath = buildIgnoreMatcher({
+      ignore_paths: ['package-lock.json'],
+      gitattributes: null,
+    })
+    expect(parseRangeDiffOutput(output!, isIgnoredPath).status).toBe('stale')
+  })
+
+  test('change to an ignored file in an amended commit → not_stale', () => {
+    // Range-diff labels the hunk "@@ Commit message", but it changes
+    // package-lock.json, so it's only disregarded when that file is ignored.
+    const mainSha = getHead()
+    execSync('git checkout -b feature', {cwd: repoPath, stdio: 'ignore'})
+    fs.writeFileSync(path.join(repoPath, 'package-lock.json'), '{}\n')
+    fs.writeFileSync(path.join(repoPath, 'x.ts'), 'a\nb\nc\n')
+    execSync('git add package-lock.json x.ts', {cwd: repoPath})
+    execSync('git commit -m "Change"', {cwd: repoPath, stdio: 'ignore'})
+    const originalSha = getHead()
+
+    fs.writeFileSync(path.join(repoPath, 'package-lock.json'), '{"a": 1}\n')
+    execSync('git add package-lock.json', {cwd: repoPath})
+    execSync('git commit --amend -m "Change"', {
+      cwd: repoPath,
+      stdio: 'ignore',
+    })
+    const amendedSha = getHead()
+
+    const output = runRangeDiff({
+      repoPath,
+      prevMergeBase: mainSha,
+      approvedSha: originalSha,
+      currMergeBase: mainSha,
+      currentHead: amendedSha,
+    })
+    expect(output).not.toBeNull()
+    const isIgnoredPath = buildIgnoreMatcher({
+      ignore_paths: ['package-lock.json'],
+      gitattributes: null,
+    })
+    expect(parseRangeDiffOutput(output!, isIgnoredPath).status).toBe(
+      'not_stale'
+    )
+    expect(parseRangeDiffOutput(output!).status).toBe('stale')
+  })
+
   test('new commit added → unknown', () => {
     // Setup:
     // branch before: A -> B
@@ -1,5 +1,5 @@
 import {expect, describe, test} from '@jest/globals'
-import {parseRangeDiffOutput} from '../src/range-diff'
+import {parseRangeDiffCommits, parseRangeDiffOutput} from '../src/range-diff'
 
 describe('parseRangeDiffOutput', () => {
   test('empty output → not stale', () => {
@@ -230,3 +230,45 @@ describe('parseRangeDiffOutput', () => {
     expect(result.summary).toContain('1 with code changes')
   })
 })
+
+describe('parseRangeDiffCommits', () => {
+  test('pairs up the commits of both ranges', () => {
+    const output = `1:  abc1234 = 1:  def5678 First commit
+2:  111aaaa ! 2:  222bbbb Second commit
+    @@ src/file.ts @@
+    -   oldCode()
+    +   newCode()
+3:  333cccc < -:  ------- Removed commit
+-:  ------- > 3:  444dddd Added commit`
+    expect(parseRangeDiffCommits(output)).toEqual([
+      {
+        marker: '=',
+        approved_sha: 'abc1234',
+        current_sha: 'def5678',
+        subject: 'First commit',
+        code_changed: false,
+      },
+      {
+        marker: '!',
+        approved_sha: '111aaaa',
+        current_sha: '222bbbb',
+        subject: 'Second commit',
+        code_changed: true,
+      },
+      {
+        marker: '<',
+        approved_sha: '333cccc',
+        current_sha: null,
+        subject: 'Removed commit',
+        code_changed: false,
+      },
+      {
+        marker: '>',
+        approved_sha: null,
+        current_sha: '444dddd',
+        subject: 'Added commit',
+        code_changed: false,
+      },
+    ])
+  })
+})
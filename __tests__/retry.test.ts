@@ -0,0 +1,179 @@
+import {expect, describe, test} from '@jest/globals'
+import {GitHub} from '@actions/github/lib/utils'
+import {RetryOptions, retryDelay, throttleAndRetry} from '../src/retry'
+
+const options: RetryOptions = {
+  max_retries: 3,
+  base_delay_ms: 1000,
+  max_delay_ms: 120 * 1000,
+  write_interval_ms: 1000,
+}
+
+function httpError(
+  status: number,
+  headers: Record<string, string> = {},
+  message = 'error'
+): Error {
+  return Object.assign(new Error(message), {status, response: {headers}})
+}
+
+describe('retryDelay', () => {
+  test('backs off exponentially on server errors', () => {
+    expect(retryDelay(httpError(502), 0, options)).toBe(1000)
+    expect(retryDelay(httpError(502), 2, options)).toBe(4000)
+    expect(retryDelay(httpError(502), 3, options)).toBeNull()
+  })
+
+  test('waits as long as GitHub asks on rate limits', () => {
+    expect(retryDelay(httpError(403, {'retry-after': '30'}), 0, options)).toBe(
+      30 * 1000
+    )
+    expect(
+      retryDelay(
+        httpError(403, {
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': '1010',
+        }),
+        0,
+        options,
+        1000 * 1000
+      )
+    ).toBe(10 * 1000)
+    expect(
+      retryDelay(
+        httpError(403, {}, 'You have exceeded a secondary rate limit'),
+        0,
+        options
+      )
+    ).toBe(60 * 1000)
+    expect(retryDelay(httpError(429), 1, options)).toBe(2000)
+  })
+
+  test("doesn't retry other errors or waits that are too long", () => {
+    expect(retryDelay(httpError(403), 0, options)).toBeNull()
+    expect(retryDelay(httpError(404), 0, options)).toBeNull()
+    expect(retryDelay(new Error('bug'), 0, options)).toBeNull()
+    expect(
+      retryDelay(httpError(403, {'retry-after': '3600'}), 0, options)
+    ).toBeNull()
+  })
+})
+
+describe('throttleAndRetry', () => {
+  type Request = (options: {method: string; url: string}) => Promise<unknown>
+  type Wrapper = (
+    request: Request,
+    options: {method: string; url: string}
+  ) => Promise<unknown>
+
+  function wrap(sleeps: number[]): Wrapper {
+    let wrapper: Wrapper | null = null
+    const octokit = {
+      hook: {
+        wrap: (_name: string, fn: Wrapper) => {
+          wrapper = fn
+        },
+      },
+    } as unknown as InstanceType<typeof GitHub>
+    throttleAndRetry(octokit, options, async ms => {
+      sleeps.push(ms)
+    })
+    if (wrapper === null) {
+      throw new Error('No request hook was installed.')
+    }
+    return wrapper
+  }
+
+  test('retries transient errors until the request succeeds', async () => {
+    const sleeps: number[] = []
+    const errors = [httpError(502), httpError(503)]
+    let calls = 0
+    const response = await wrap(sleeps)(
+      async () => {
+        calls++
+        const error = errors.shift()
+        if (error) {
+          throw error
+        }
+        return 'ok'
+      },
+      {method: 'GET', url: '/repos/{owner}/{repo}/pulls/{pull_number}'}
+    )
+    expect(response).toBe('ok')
+    expect(calls).toBe(3)
+    expect(sleeps).toEqual([1000, 2000])
+  })
+
+  test('gives up on errors which are not transient', async () => {
+    const error = httpError(422)
+    await expect(
+      wrap([])(
+        async () => {
+          throw error
+        },
+        {method: 'PUT', url: '/dismissals'}
+      )
+    ).rejects.toBe(error)
+  })
+
+  test("doesn't retry non-idempotent writes on server errors", async () => {
+    const error = httpError(502)
+    let calls = 0
+    await expect(
+      wrap([])(
+        async () => {
+          calls++
+          throw error
+        },
+        {
+          method: 'POST',
+          url: '/repos/{owner}/{repo}/issues/{issue_number}/comments',
+        }
+      )
+    ).rejects.toBe(error)
+    expect(calls).toBe(1)
+  })
+
+  test('retries writes on rate limits and GraphQL queries on server errors', async () => {
+    const sleeps: number[] = []
+    const errors = [httpError(429)]
+    const request = async (): Promise<string> => {
+      const error = errors.shift()
+      if (error) {
+        throw error
+      }
+      return 'ok'
+    }
+    const wrapper = wrap(sleeps)
+    expect(
+      await wrapper(request, {
+        method: 'POST',
+        url: '/repos/{owner}/{repo}/check-runs',
+      })
+    ).toBe('ok')
+    errors.push(httpError(502))
+    expect(await wrapper(request, {method: 'POST', url: '/graphql'})).toBe('ok')
+  })
+  test('retries idempotent writes on server errors', async () => {
+    const sleeps: number[] = []
+    const errors = [httpError(502)]
+    let calls = 0
+    const response = await wrap(sleeps)(
+      async () => {
+        calls++
+        const error = errors.shift()
+        if (error) {
+          throw error
+        }
+        return 'ok'
+      },
+      {
+        method: 'PUT',
+        url: '/repos/{owner}/{repo}/pulls/{pull_number}/reviews/{review_id}/dismissals',
+      }
+    )
+    expect(response).toBe('ok')
+    expect(calls).toBe(2)
+    expect(sleeps).toContain(1000)
+  })
+})
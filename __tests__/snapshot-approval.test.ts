@@ -0,0 +1,223 @@
+import {
+  expect,
+  describe,
+  test,
+  jest,
+  beforeEach,
+  afterEach,
+} from '@jest/globals'
+import * as github from '@actions/github'
+import {execSync} from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {parseApprovalMetadata} from '../src/approval-metadata'
+import {PullRequest} from '../src/pull-request'
+import {snapshotApproval} from '../src/snapshot-approval'
+import {verifySnapshot} from '../src/snapshot-signature'
+import {
+  GitRefSnapshotStore,
+  localDirectorySnapshotStore,
+} from '../src/snapshot-store'
+
+jest.mock('../src/pull-request', () => ({
+  ...(jest.requireActual('../src/pull-request') as object),
+  PullRequest: jest.fn(),
+}))
+
+describe('snapshotApproval', () => {
+  const approved_diff = [
+    'diff --git a/a.ts b/a.ts',
+    'index 1111111..2222222 100644',
+    '--- a/a.ts',
+    '+++ b/a.ts',
+    '@@ -1 +1 @@',
+    '-old',
+    '+new',
+    '',
+  ].join('\n')
+  const pull_request = {
+    getMergeBase: jest.fn(async () => 'merge-base'),
+    compareCommits: jest.fn(async () => approved_diff),
+    removeLabel: jest.fn(async () => undefined),
+  }
+  const params = {token: 'token', api_url: 'https://api.github.com'}
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-approval-test-'))
+    jest
+      .mocked(PullRequest)
+      .mockImplementation(() => pull_request as unknown as PullRequest)
+    github.context.eventName = 'pull_request_review'
+    github.context.payload = {
+      action: 'submitted',
+      review: {
+        id: 7,
+        state: 'approved',
+        commit_id: 'approved',
+        submitted_at: '2024-01-01T00:00:00Z',
+      },
+      pull_request: {
+        number: 11,
+        base: {ref: 'main', sha: 'base'},
+        head: {sha: 'head'},
+        labels: [],
+      },
+    }
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true, force: true})
+  })
+
+  test('writes the metadata and approved diff of the approval', async () => {
+    const snapshot_store = localDirectorySnapshotStore(dir)
+    const result = await snapshotApproval({
+      ...params,
+      snapshot_store,
+      signing_key: '',
+      re_review_label: '',
+    })
+
+    expect(result).toEqual({
+      metadata_path: path.join(dir, '7', 'approval-metadata.json'),
+      diff_path: path.join(dir, '7', 'approved.diff'),
+      cache_key: 'approval-7',
+    })
+    expect(pull_request.getMergeBase).toHaveBeenCalledWith('base', 'approved')
+    expect(pull_request.compareCommits).toHaveBeenCalledWith('base', 'approved')
+    const snapshot = await snapshot_store.load(7)
+    expect(snapshot.diff).toBe(approved_diff)
+    const metadata = parseApprovalMetadata(snapshot.metadata as string)
+    expect(metadata).toMatchObject({
+      version: 2,
+      review_id: 7,
+      approved_sha: 'approved',
+      merge_base_sha: 'merge-base',
+      base_sha: 'base',
+      base_ref: 'main',
+      approved_at: '2024-01-01T00:00:00Z',
+    })
+    expect(metadata.files).toMatchObject([
+      {path: 'a.ts', base_blob_sha: '1111111', head_blob_sha: '2222222'},
+    ])
+    expect(metadata.signature).toBeUndefined()
+  })
+
+  test('signs the snapshot with the signing key', async () => {
+    const snapshot_store = localDirectorySnapshotStore(dir)
+    await snapshotApproval({
+      ...params,
+      snapshot_store,
+      signing_key: 'secret',
+      re_review_label: '',
+    })
+
+    const snapshot = await snapshot_store.load(7)
+    const metadata = parseApprovalMetadata(snapshot.metadata as string)
+    const diff = snapshot.diff as string
+    expect(verifySnapshot({metadata, diff, key: 'secret'})).toBe(true)
+    expect(verifySnapshot({metadata, diff, key: 'other'})).toBe(false)
+  })
+
+  test('stores the snapshot under a git ref', async () => {
+    const origin = path.join(dir, 'origin.git')
+    execSync(`git init -q --bare ${origin}`)
+    const clone = (name: string): string => {
+      const repo_path = path.join(dir, name)
+      execSync(`git clone -q ${origin} ${repo_path}`, {stdio: 'ignore'})
+      return repo_path
+    }
+    const result = await snapshotApproval({
+      ...params,
+      snapshot_store: new GitRefSnapshotStore(
+        clone('writer'),
+        () => process.env
+      ),
+      signing_key: '',
+      re_review_label: '',
+    })
+
+    expect(result).toEqual({
+      metadata_path: 'refs/approval-snapshots/7:approval-metadata.json',
+      diff_path: 'refs/approval-snapshots/7:approved.diff',
+      cache_key: '',
+    })
+    const reader = new GitRefSnapshotStore(clone('reader'), () => process.env)
+    const snapshot = await reader.load(7)
+    expect(snapshot.diff).toBe(approved_diff)
+    expect(parseApprovalMetadata(snapshot.metadata as string).review_id).toBe(7)
+  })
+
+  test('removes the re-review label on approval', async () => {
+    github.context.payload.pull_request = {
+      ...github.context.payload.pull_request,
+      labels: [{name: 'bug'}, {name: 'needs-re-review'}],
+    } as typeof github.context.payload.pull_request
+    const result = await snapshotApproval({
+      ...params,
+      snapshot_store: localDirectorySnapshotStore(dir),
+      signing_key: '',
+      re_review_label: 'needs-re-review',
+    })
+
+    expect(pull_request.removeLabel).toHaveBeenCalledWith('needs-re-review')
+    expect(result?.cache_key).toBe('approval-7')
+  })
+
+  test("doesn't remove the re-review label if the PR doesn't have it", async () => {
+    await snapshotApproval({
+      ...params,
+      snapshot_store: localDirectorySnapshotStore(dir),
+      signing_key: '',
+      re_review_label: 'needs-re-review',
+    })
+
+    expect(pull_request.removeLabel).not.toHaveBeenCalled()
+  })
+
+  test('still snapshots the approval if the label cannot be removed', async () => {
+    github.context.payload.pull_request = {
+      ...github.context.payload.pull_request,
+      labels: [{name: 'needs-re-review'}],
+    } as typeof github.context.payload.pull_request
+    pull_request.removeLabel.mockRejectedValueOnce(new Error('Forbidden'))
+    const snapshot_store = localDirectorySnapshotStore(dir)
+    const result = await snapshotApproval({
+      ...params,
+      snapshot_store,
+      signing_key: '',
+      re_review_label: 'needs-re-review',
+    })
+
+    expect(result?.cache_key).toBe('approval-7')
+    expect((await snapshot_store.load(7)).diff).toBe(approved_diff)
+  })
+
+  test('skips reviews which are not approvals', async () => {
+    github.context.payload.review.state = 'commented'
+    const snapshot_store = localDirectorySnapshotStore(dir)
+    expect(
+      await snapshotApproval({
+        ...params,
+        snapshot_store,
+        signing_key: '',
+        re_review_label: '',
+      })
+    ).toBeNull()
+    expect(await snapshot_store.load(7)).toEqual({metadata: null, diff: null})
+  })
+
+  test('must be run on a pull_request_review event', async () => {
+    github.context.eventName = 'pull_request'
+    await expect(
+      snapshotApproval({
+        ...params,
+        snapshot_store: localDirectorySnapshotStore(dir),
+        signing_key: '',
+        re_review_label: '',
+      })
+    ).rejects.toThrow('snapshot-approval mode must be run on a')
+  })
+})
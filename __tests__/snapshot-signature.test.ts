@@ -0,0 +1,53 @@
+import {expect, describe, test} from '@jest/globals'
+import {ApprovalMetadata, parseApprovalMetadata} from '../src/approval-metadata'
+import {signSnapshot, verifySnapshot} from '../src/snapshot-signature'
+
+describe('snapshot signatures', () => {
+  const key = 'secret'
+  const diff = 'diff --git a/x b/x\n+approved\n'
+  const unsigned: ApprovalMetadata = {
+    version: 1,
+    review_id: 123,
+    approved_sha: 'abc1234',
+    merge_base_sha: 'def5678',
+    base_sha: '111aaaa',
+    base_ref: 'main',
+    approved_at: '2024-01-01T00:00:00Z',
+  }
+  const metadata = {
+    ...unsigned,
+    signature: signSnapshot({metadata: unsigned, diff, key}),
+  }
+
+  test('verifies a signed snapshot after a round trip', () => {
+    const parsed = parseApprovalMetadata(JSON.stringify(metadata))
+    expect(verifySnapshot({metadata: parsed, diff, key})).toBe(true)
+  })
+
+  test('rejects a tampered diff', () => {
+    expect(
+      verifySnapshot({metadata, diff: diff.replace('approved', 'new'), key})
+    ).toBe(false)
+  })
+
+  test('rejects a snapshot rebound to another review or commit', () => {
+    expect(
+      verifySnapshot({metadata: {...metadata, review_id: 456}, diff, key})
+    ).toBe(false)
+    expect(
+      verifySnapshot({
+        metadata: {...metadata, approved_sha: 'fff0000'},
+        diff,
+        key,
+      })
+    ).toBe(false)
+  })
+
+  test('rejects a wrong key or a missing signature', () => {
+    expect(verifySnapshot({metadata, diff, key: 'other'})).toBe(false)
+    expect(verifySnapshot({metadata: unsigned, diff, key})).toBe(false)
+    expect(
+      verifySnapshot({metadata: {...metadata, signature: 'abc'}, diff, key})
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,61 @@
+import {expect, describe, test, beforeEach, afterEach} from '@jest/globals'
+import {execSync} from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  FileSnapshotStore,
+  GitRefSnapshotStore,
+  localDirectorySnapshotStore,
+} from '../src/snapshot-store'
+
+const snapshot = {metadata: '{"version": 1}', diff: 'diff --git a/x b/x\n'}
+
+describe('snapshot stores', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-store-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true, force: true})
+  })
+
+  test('local directory store keeps a snapshot per review', async () => {
+    const store = localDirectorySnapshotStore(dir)
+    expect(store.per_review).toBe(true)
+    await store.save(1, snapshot)
+    expect(await store.load(1)).toEqual(snapshot)
+    expect(await store.load(2)).toEqual({metadata: null, diff: null})
+  })
+
+  test('file store without a placeholder shares one snapshot', async () => {
+    const store = new FileSnapshotStore(
+      path.join(dir, 'approval-metadata.json'),
+      path.join(dir, 'approved.diff')
+    )
+    expect(store.per_review).toBe(false)
+    await store.save(1, snapshot)
+    expect(await store.load(2)).toEqual(snapshot)
+  })
+
+  test('git ref store round trips through the origin remote', async () => {
+    const origin = path.join(dir, 'origin.git')
+    execSync(`git init -q --bare ${origin}`)
+    const clone = (name: string): string => {
+      const repo_path = path.join(dir, name)
+      execSync(`git clone -q ${origin} ${repo_path}`, {stdio: 'ignore'})
+      return repo_path
+    }
+    const writer_path = clone('writer')
+    const writer = new GitRefSnapshotStore(writer_path, () => process.env)
+    const location = await writer.save(123, snapshot)
+    expect(location.diff).toBe('refs/approval-snapshots/123:approved.diff')
+
+    const reader_path = clone('reader')
+    const reader = new GitRefSnapshotStore(reader_path, () => process.env)
+    expect(await reader.load(123)).toEqual(snapshot)
+    expect(await reader.load(456)).toEqual({metadata: null, diff: null})
+  })
+})
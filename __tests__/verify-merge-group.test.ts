@@ -0,0 +1,81 @@
+import {expect, describe, test} from '@jest/globals'
+import * as github from '@actions/github'
+import {FileSnapshotStore} from '../src/snapshot-store'
+import {
+  locateMergeGroupEntries,
+  verifyMergeGroup,
+} from '../src/verify-merge-group'
+
+describe('locateMergeGroupEntries', () => {
+  test('splits merge and squash commits by pull request', () => {
+    const entries = locateMergeGroupEntries({
+      commits: [
+        {sha: 'c1', subject: 'Merge pull request #10 from org/feature'},
+        {sha: 'c2', subject: 'Add the widget (#11)'},
+      ],
+      base_sha: 'base',
+      head_pull_number: 11,
+    })
+    expect(entries).toEqual([
+      {pull_number: 10, base_sha: 'base', head_sha: 'c1'},
+      {pull_number: 11, base_sha: 'c1', head_sha: 'c2'},
+    ])
+  })
+
+  test('attributes trailing rebased commits to the queued pull request', () => {
+    const entries = locateMergeGroupEntries({
+      commits: [
+        {sha: 'c1', subject: 'Fix the thing (#10)'},
+        {sha: 'c2', subject: 'First commit'},
+        {sha: 'c3', subject: 'Second commit'},
+      ],
+      base_sha: 'base',
+      head_pull_number: 12,
+    })
+    expect(entries).toEqual([
+      {pull_number: 10, base_sha: 'base', head_sha: 'c1'},
+      {pull_number: 12, base_sha: 'c1', head_sha: 'c3'},
+    ])
+  })
+
+  test('fails if commits cannot be attributed', () => {
+    expect(() =>
+      locateMergeGroupEntries({
+        commits: [{sha: 'c1', subject: 'Rebased commit'}],
+        base_sha: 'base',
+        head_pull_number: null,
+      })
+    ).toThrow('Unable to attribute')
+  })
+})
+
+describe('verifyMergeGroup', () => {
+  test('rejects a snapshot shared by all reviews', async () => {
+    github.context.eventName = 'merge_group'
+    github.context.payload = {
+      merge_group: {base_sha: 'base', head_sha: 'head', base_ref: 'main'},
+      repository: {
+        full_name: 'octo/repo',
+        name: 'repo',
+        owner: {login: 'octo'},
+      },
+    }
+    await expect(
+      verifyMergeGroup({
+        token: 'token',
+        api_url: 'https://api.github.com',
+        snapshot_store: new FileSnapshotStore(
+          'approval-metadata.json',
+          'approved.diff'
+        ),
+        snapshot_signing_key: '',
+        repo_path: '.',
+        fetch_depth: 0,
+        ignore_paths: [],
+        ignore_linguist_generated: false,
+        diff_comparison: 'exact',
+        ignore_whitespace: false,
+      })
+    ).rejects.toThrow('needs a snapshot per review')
+  })
+})
@@ -0,0 +1,223 @@
+// Module for the approval metadata snapshot written when a PR is approved and read
+// back when deciding whether the approval is stale.
+
+import crypto from 'crypto'
+import {FileDiff, normalizeDiff, splitDiff} from './diff'
+
+export interface ApprovalMetadata {
+  version: number
+  review_id: number
+  approved_sha: string
+  merge_base_sha: string
+  base_sha: string
+  base_ref: string
+  approved_at: string
+  // The files changed by the approved diff. Only present from version 2.
+  files?: ApprovedFile[]
+  // HMAC of the snapshot, present if snapshot-approval was given a signing key.
+  signature?: string
+}
+
+export interface ApprovedFile {
+  path: string
+  // The blob SHAs of the file before and after the change, as (possibly abbreviated)
+  // in the diff's index line, or null if the file doesn't exist on that side or the
+  // diff has no index line for it (e.g. a pure rename).
+  base_blob_sha: string | null
+  head_blob_sha: string | null
+  // SHA-256 of the file's section of the normalized diff.
+  patch_hash: string
+}
+
+export const APPROVAL_METADATA_VERSION = 2
+const SUPPORTED_VERSIONS = [1, APPROVAL_METADATA_VERSION]
+
+/**
+ * Parse and validate serialized approval metadata.
+ *
+ * Snapshots written before the snapshot-approval mode existed were produced by a
+ * shell heredoc which stored review_id as a string, so numeric strings are
+ * accepted and coerced for review_id.
+ *
+ * @throws Error if the metadata is not valid JSON or doesn't match the schema
+ */
+export function parseApprovalMetadata(raw: string): ApprovalMetadata {
+  const parsed: unknown = JSON.parse(raw)
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Approval metadata must be a JSON object.')
+  }
+  const data = parsed as Record<string, unknown>
+
+  const version = data.version
+  if (typeof version !== 'number' || !SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported metadata version: ${version}`)
+  }
+
+  let review_id = data.review_id
+  if (typeof review_id === 'string' && /^\d+$/.test(review_id)) {
+    review_id = parseInt(review_id, 10)
+  }
+  if (typeof review_id !== 'number' || !Number.isInteger(review_id)) {
+    throw new Error('Approval metadata field review_id must be an integer.')
+  }
+
+  const stringFields = [
+    'approved_sha',
+    'merge_base_sha',
+    'base_sha',
+    'base_ref',
+    'approved_at',
+  ] as const
+  for (const field of stringFields) {
+    if (typeof data[field] !== 'string' || data[field] === '') {
+      throw new Error(
+        `Approval metadata field ${field} must be a non-empty string.`
+      )
+    }
+  }
+
+  if (data.signature !== undefined && typeof data.signature !== 'string') {
+    throw new Error('Approval metadata field signature must be a string.')
+  }
+
+  let files: ApprovedFile[] | undefined
+  if (version >= 2) {
+    if (!Array.isArray(data.files)) {
+      throw new Error('Approval metadata field files must be an array.')
+    }
+    files = data.files.map(parseApprovedFile)
+  }
+
+  return {
+    version,
+    review_id,
+    approved_sha: data.approved_sha as string,
+    merge_base_sha: data.merge_base_sha as string,
+    base_sha: data.base_sha as string,
+    base_ref: data.base_ref as string,
+    approved_at: data.approved_at as string,
+    ...(files !== undefined ? {files} : {}),
+    ...(data.signature !== undefined ? {signature: data.signature} : {}),
+  }
+}
+
+function parseApprovedFile(raw: unknown): ApprovedFile {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Approval metadata files must be objects.')
+  }
+  const file = raw as Record<string, unknown>
+  if (typeof file.path !== 'string' || file.path === '') {
+    throw new Error('Approval metadata file path must be a non-empty string.')
+  }
+  for (const field of ['base_blob_sha', 'head_blob_sha'] as const) {
+    const sha = file[field]
+    if (sha !== null && (typeof sha !== 'string' || !/^[0-9a-f]+$/.test(sha))) {
+      throw new Error(
+        `Approval metadata file ${field} of ${file.path} must be a hex SHA or null.`
+      )
+    }
+  }
+  if (
+    typeof file.patch_hash !== 'string' ||
+    !/^[0-9a-f]{64}$/.test(file.patch_hash)
+  ) {
+    throw new Error(
+      `Approval metadata file patch_hash of ${file.path} must be a SHA-256.`
+    )
+  }
+  return {
+    path: file.path,
+    base_blob_sha: file.base_blob_sha as string | null,
+    head_blob_sha: file.head_blob_sha as string | null,
+    patch_hash: file.patch_hash,
+  }
+}
+
+/**
+ * Describe each file changed by a diff for the version 2 metadata.
+ */
+export function describeApprovedFiles(diff: string): ApprovedFile[] {
+  return splitDiff(diff).map(file => ({
+    path: file.path,
+    ...parseBlobShas(file),
+    patch_hash: hashPatch({path: file.path, text: normalizeDiff(file.text)}),
+  }))
+}
+
+/**
+ * List the files whose (normalized) patches differ between the approved files and
+ * the files of the current diff, sorted by path. Both sides must be described
+ * without ignored files, if any.
+ */
+export function changedApprovedFiles(
+  approved: ApprovedFile[],
+  current: FileDiff[]
+): string[] {
+  const approved_hashes = new Map(approved.map(f => [f.path, f.patch_hash]))
+  const current_hashes = new Map(current.map(f => [f.path, hashPatch(f)]))
+  const paths = new Set([...approved_hashes.keys(), ...current_hashes.keys()])
+  return [...paths]
+    .filter(path => approved_hashes.get(path) !== current_hashes.get(path))
+    .sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * List the files whose content after the change differs between the approved files
+ * and the current changed files (e.g. from `git diff --raw`), sorted by path. Blob
+ * SHAs may be abbreviated on either side.
+ *
+ * Unlike changedApprovedFiles, this doesn't need the current diff, but it only
+ * compares the resulting file contents: a file with a changed base but the same
+ * content after the change isn't listed.
+ */
+export function changedApprovedBlobs(
+  approved: ApprovedFile[],
+  current: {path: string; head_blob_sha: string | null}[]
+): string[] {
+  const approved_blobs = new Map(approved.map(f => [f.path, f.head_blob_sha]))
+  const current_blobs = new Map(current.map(f => [f.path, f.head_blob_sha]))
+  const paths = new Set([...approved_blobs.keys(), ...current_blobs.keys()])
+  return [...paths]
+    .filter(path => {
+      const a = approved_blobs.get(path)
+      const b = current_blobs.get(path)
+      if (a === undefined || b === undefined || a === null || b === null) {
+        return a !== b
+      }
+      return !a.startsWith(b) && !b.startsWith(a)
+    })
+    .sort((x, y) => x.localeCompare(y))
+}
+
+// Hash a file's section of a normalized diff.
+function hashPatch(file: FileDiff): string {
+  return crypto.createHash('sha256').update(file.text).digest('hex')
+}
+
+// Find the blob SHAs in the index line of a file's section of a diff.
+function parseBlobShas(file: FileDiff): {
+  base_blob_sha: string | null
+  head_blob_sha: string | null
+} {
+  const match = file.text.match(/^index ([0-9a-f]+)\.\.([0-9a-f]+)/m)
+  if (!match) {
+    return {base_blob_sha: null, head_blob_sha: null}
+  }
+  const blob = (sha: string): string | null => (/^0+$/.test(sha) ? null : sha)
+  return {base_blob_sha: blob(match[1]), head_blob_sha: blob(match[2])}
+}
+
+// Placeholder which may be used in snapshot paths so that each approval's snapshot
+// is stored separately, e.g. "snapshots/{review_id}/approved.diff".
+export const REVIEW_ID_PLACEHOLDER = '{review_id}'
+
+export function isSnapshotPathTemplate(template: string): boolean {
+  return template.includes(REVIEW_ID_PLACEHOLDER)
+}
+
+export function resolveSnapshotPath(
+  template: string,
+  review_id: number
+): string {
+  return template.split(REVIEW_ID_PLACEHOLDER).join(review_id.toString())
+}
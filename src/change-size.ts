@@ -0,0 +1,119 @@
+// Module for the policy which keeps approvals whose changes since approval are small
+// enough (e.g. a typo fix) not to need another review.
+
+import {minimatch} from 'minimatch'
+import {FileInterdiff} from './interdiff'
+import {toMinimatchPattern} from './ignore-paths'
+
+export interface SmallChangePolicy {
+  // Most lines which may be added and removed since approval; 0 disables the policy.
+  max_lines: number
+  // Most files which may change since approval; 0 for no limit.
+  max_files: number
+  // Glob patterns of the only paths which may change; empty for any path.
+  paths: string[]
+}
+
+export interface ChangeSize {
+  // Lines added and removed between the reviewed and current diffs.
+  lines: number
+  files: number
+}
+
+export interface SmallChangeEvaluation {
+  size: ChangeSize
+  // Why the changes aren't within the policy, or null if they are.
+  exceeded: string | null
+}
+
+/**
+ * Measure the size of an interdiff: the number of files in it, and the number of
+ * lines which were added or removed in the current diff compared to the reviewed
+ * diff. A line changed since approval counts twice (as removed and added).
+ *
+ * @returns the size, with lines as Infinity if some file's changes have no hunks to
+ *   count (e.g. binary or mode-only changes)
+ */
+export function measureInterdiff(interdiff: FileInterdiff[]): ChangeSize {
+  let lines = 0
+  for (const file of interdiff) {
+    const reviewed = changedLines(file.removed_hunks)
+    const current = changedLines(file.added_hunks)
+    if (reviewed === null || current === null) {
+      lines = Infinity
+      continue
+    }
+    lines += multisetDifference(reviewed, current)
+    lines += multisetDifference(current, reviewed)
+  }
+  return {lines, files: interdiff.length}
+}
+
+/**
+ * Decide whether the changes since approval are small enough per the policy to keep
+ * the approval, i.e. whether none of its limits are exceeded.
+ */
+export function evaluateSmallChange(
+  interdiff: FileInterdiff[],
+  {max_lines, max_files, paths}: SmallChangePolicy
+): SmallChangeEvaluation {
+  const size = measureInterdiff(interdiff)
+  const globs = paths.map(toMinimatchPattern)
+  const outside = interdiff
+    .map(file => file.path)
+    .filter(path => !globs.some(glob => minimatch(path, glob, {dot: true})))
+
+  let exceeded: string | null = null
+  if (size.lines === Infinity) {
+    exceeded = 'some changes (e.g. to binary files) cannot be measured in lines'
+  } else if (size.lines > max_lines) {
+    exceeded = `${size.lines} changed lines exceed the limit of ${max_lines}`
+  } else if (max_files > 0 && size.files > max_files) {
+    exceeded = `${size.files} changed files exceed the limit of ${max_files}`
+  } else if (globs.length > 0 && outside.length > 0) {
+    exceeded = `changes to ${outside.join(', ')} are not allowed`
+  }
+  return {size, exceeded}
+}
+
+export function describeChangeSize({lines, files}: ChangeSize): string {
+  return lines === Infinity
+    ? `${files} file(s), not all measurable in lines`
+    : `${lines} line(s) in ${files} file(s)`
+}
+
+// The added and removed lines of the hunks, or null if some change has no hunks.
+// Hunks of canonicalized diffs have no "@@" headers, while a file's changes without
+// any hunks are its whole diff, headers and all.
+function changedLines(hunks: string[]): string[] | null {
+  const lines: string[] = []
+  for (const hunk of hunks) {
+    if (hunk.startsWith('diff ')) {
+      return null
+    }
+    for (const line of hunk.split('\n')) {
+      if (line.startsWith('+') || line.startsWith('-')) {
+        lines.push(line)
+      }
+    }
+  }
+  return lines
+}
+
+// The number of items of a which aren't in b, counting duplicates.
+function multisetDifference(a: string[], b: string[]): number {
+  const counts = new Map<string, number>()
+  for (const item of b) {
+    counts.set(item, (counts.get(item) ?? 0) + 1)
+  }
+  let difference = 0
+  for (const item of a) {
+    const count = counts.get(item) ?? 0
+    if (count > 0) {
+      counts.set(item, count - 1)
+    } else {
+      difference++
+    }
+  }
+  return difference
+}
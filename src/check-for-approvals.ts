@@ -1,7 +1,8 @@
 // A script to check if there are any approvals on a PR.
-// Outputs the SHA of the commit and review ID for the most recent approval,
-// or 'null' if there are no approvals.
+// Outputs the SHA of the commit and review ID for every approval in chronological
+// order (the most recent approval last), or an empty list if there are no approvals.
 
+import {addApprovalsSummary, writeJobSummary} from './job-summary'
 import {PullRequest} from './pull-request'
 
 export interface ApprovalInfo {
@@ -10,16 +11,15 @@ export interface ApprovalInfo {
 }
 
 export async function checkForApprovals(
-  token: string
-): Promise<ApprovalInfo | null> {
-  const reviews = new PullRequest(token)
+  token: string,
+  api_url = ''
+): Promise<ApprovalInfo[]> {
+  const reviews = new PullRequest(token, {api_url})
   const approved_reviews = await reviews.getApprovedReviews()
-  if (approved_reviews.length === 0) {
-    return null
-  }
-  const latest = approved_reviews[approved_reviews.length - 1]
-  return {
-    approved_sha: latest.commit_id ?? '',
-    review_id: latest.id,
-  }
+  addApprovalsSummary(approved_reviews.map(review => ({review})))
+  await writeJobSummary()
+  return approved_reviews.map(review => ({
+    approved_sha: review.commit_id ?? '',
+    review_id: review.id,
+  }))
 }
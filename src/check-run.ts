@@ -0,0 +1,201 @@
+// Module for publishing the outcome of dismiss-stale-reviews as a check run on the PR's
+// head, so that it can be required like any other status and explains how each
+// approval was evaluated.
+
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import {measureInterdiff} from './change-size'
+import {
+  DismissalResult,
+  ReviewOutcome,
+  workflowRunUrl,
+} from './dismiss-if-stale'
+import {CheckRunConclusion, PullRequest} from './pull-request'
+
+export interface CheckRunOptions {
+  name: string
+  // The conclusion when approvals were (or, in a dry run, would have been)
+  // dismissed.
+  conclusion_on_dismissal: CheckRunConclusion
+  // The conclusion when an approval was pessimistically considered stale, e.g.
+  // because a diff couldn't be computed.
+  conclusion_on_pessimistic: CheckRunConclusion
+}
+
+// GitHub limits check run summaries to 65535 characters; leave room for the
+// truncation notice.
+const MAX_SUMMARY_LENGTH = 60000
+
+// Conclusions from least to most severe.
+const SEVERITY: CheckRunConclusion[] = ['success', 'neutral', 'failure']
+
+/**
+ * Choose the check run's conclusion: the most severe of those configured for what
+ * happened, and failure if some stale approvals couldn't be dismissed.
+ */
+export function checkRunConclusion(
+  result: DismissalResult,
+  options: CheckRunOptions
+): CheckRunConclusion {
+  const conclusions: CheckRunConclusion[] = ['success']
+  if (result.is_stale) {
+    conclusions.push(options.conclusion_on_dismissal)
+  }
+  if (
+    result.reviews.some(
+      review => review.is_stale && review.method === 'pessimistic'
+    )
+  ) {
+    conclusions.push(options.conclusion_on_pessimistic)
+  }
+  if (result.failed_review_ids.length > 0) {
+    conclusions.push('failure')
+  }
+  return conclusions.reduce((a, b) =>
+    SEVERITY.indexOf(b) > SEVERITY.indexOf(a) ? b : a
+  )
+}
+
+/**
+ * Render the check run's title and Markdown summary: the overall decision, and for
+ * each approval how range-diff and the diff comparison decided, with a table of the
+ * files changed since approval. If the summary would be too long, the remaining
+ * approvals are omitted and the reader is pointed at details_url instead.
+ */
+export function renderCheckRunReport({
+  result,
+  dry_run,
+  details_url,
+}: {
+  result: DismissalResult
+  dry_run: boolean
+  details_url: string
+}): {title: string; summary: string} {
+  const failed = new Set(result.failed_review_ids)
+  const stale_count = result.reviews.filter(review => review.is_stale).length
+  let title: string
+  if (failed.size > 0) {
+    title = `Failed to dismiss ${failed.size} stale approval(s)`
+  } else if (result.is_stale) {
+    title = `${
+      dry_run ? 'Would dismiss' : 'Dismissed'
+    } ${stale_count} stale approval(s)`
+  } else if (result.reviews.length === 0) {
+    title = 'Not evaluated'
+  } else {
+    title = 'No stale approvals'
+  }
+
+  const parts = [`**Decision:** ${result.reason} (${result.decision_method})`]
+  let length = parts[0].length
+  let omitted = 0
+  for (const review of result.reviews) {
+    const section = renderReview(review, {
+      dry_run,
+      failed: failed.has(review.review_id),
+    })
+    if (length + section.length > MAX_SUMMARY_LENGTH) {
+      omitted++
+      continue
+    }
+    parts.push(section)
+    length += section.length
+  }
+  if (omitted > 0) {
+    parts.push(
+      `_${omitted} more approval(s) omitted; see the [workflow run](${details_url}) ` +
+        'for details._'
+    )
+  }
+  return {title, summary: parts.join('\n\n')}
+}
+
+/**
+ * Create the check run on the PR's head. Failing to create it (e.g. without the
+ * checks: write permission) only logs a warning.
+ */
+export async function publishCheckRun({
+  token,
+  api_url,
+  result,
+  dry_run,
+  options,
+}: {
+  token: string
+  api_url: string
+  result: DismissalResult
+  dry_run: boolean
+  options: CheckRunOptions
+}): Promise<void> {
+  const head_sha: string | undefined =
+    github.context.payload.pull_request?.head.sha
+  if (!head_sha) {
+    core.warning(`No pull request to create the ${options.name} check run on.`)
+    return
+  }
+  const details_url = workflowRunUrl()
+  const conclusion = checkRunConclusion(result, options)
+  try {
+    await new PullRequest(token, {api_url}).createCheckRun({
+      name: options.name,
+      head_sha,
+      conclusion,
+      details_url,
+      ...renderCheckRunReport({result, dry_run, details_url}),
+    })
+    core.info(`Created the ${options.name} check run (${conclusion}).`)
+  } catch (error) {
+    core.warning(
+      `Unable to create the ${options.name} check run (does the job have the ` +
+        `checks: write permission?): ${
+          error instanceof Error ? error.message : String(error)
+        }`
+    )
+  }
+}
+
+function renderReview(
+  review: ReviewOutcome,
+  {dry_run, failed}: {dry_run: boolean; failed: boolean}
+): string {
+  let status = 'kept'
+  if (failed) {
+    status = 'dismissal failed'
+  } else if (review.is_stale) {
+    status = dry_run ? 'would be dismissed' : 'dismissed'
+  }
+  let comparison: string
+  if (review.method === 'range-diff') {
+    comparison = 'not needed'
+  } else if (review.method === 'pessimistic') {
+    comparison = "pessimistic (a diff couldn't be computed or trusted)"
+  } else {
+    comparison = `against the current ${review.method} diff`
+  }
+  const lines = [
+    `### Review ${review.review_id} by @${
+      review.reviewer ?? 'unknown'
+    }: ${status}`,
+    '',
+    `- **Range-diff:** ${review.range_diff}`,
+    `- **Diff comparison:** ${comparison}`,
+    `- **Reason:** ${review.reason}`,
+  ]
+
+  const rows: [string, string][] = review.interdiff
+    ? review.interdiff.map(file => {
+        const {lines: changed} = measureInterdiff([file])
+        return [
+          file.path,
+          changed === Infinity ? 'not measurable' : `${changed}`,
+        ]
+      })
+    : (review.changed_files ?? []).map(path => [path, 'unknown'])
+  if (rows.length > 0) {
+    lines.push('', '| File | Changed lines |', '| --- | --- |')
+    for (const [path, changed] of rows) {
+      lines.push(`| \`${path.replace(/\|/g, '\\|')}\` | ${changed} |`)
+    }
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,301 @@
+// Command line entry point for running the staleness decision against a local
+// repository, outside of GitHub Actions, e.g. to debug a surprising dismissal:
+//
+//   node lib/cli.js --repo . --metadata approval-metadata.json --head <sha>
+//
+// No token or GitHub context is needed: all diffs are computed with git, so the
+// commits involved must be present in the local repository.
+
+import fs from 'fs'
+import {parseArgs} from 'util'
+import {ApprovalMetadata, parseApprovalMetadata} from './approval-metadata'
+import {changedFiles, normalizeDiff} from './diff'
+import {DiffComparison, comparableDiff} from './diff-comparison'
+import {gitDiff, gitMergeBase, gitShowFile} from './git'
+import {buildIgnoreMatcher} from './ignore-paths'
+import {RangeDiffResult, parseRangeDiffOutput, runRangeDiff} from './range-diff'
+
+export interface LocalDecision {
+  is_stale: boolean
+  method: 'range-diff' | 'three-dot' | 'two-dot' | 'pessimistic'
+  reason: string
+  // The range-diff result, or null if range-diff couldn't be run.
+  range_diff: RangeDiffResult | null
+  // Files whose changes differ between the reviewed and current diff, or null if the
+  // diffs weren't compared.
+  changed_files: string[] | null
+  ignored_changes: string[]
+}
+
+/**
+ * Decide whether an approval is stale the same way dismissIfStale does, using only
+ * the local repository.
+ *
+ * The reviewed diff is taken from reviewed_diff if given (e.g. a cached
+ * approved.diff), and is otherwise computed as the diff between the merge base at
+ * the time of approval and the approved commit, which is what GitHub shows as the
+ * PR's diff.
+ */
+export function evaluateLocally({
+  repo_path,
+  approved_sha,
+  prev_merge_base,
+  head,
+  base_ref,
+  reviewed_diff = null,
+  diff_comparison = 'exact',
+  ignore_whitespace = false,
+  ignore_paths = [],
+  ignore_linguist_generated = false,
+}: {
+  repo_path: string
+  approved_sha: string
+  prev_merge_base: string
+  head: string
+  base_ref: string
+  reviewed_diff?: string | null
+  diff_comparison?: DiffComparison
+  ignore_whitespace?: boolean
+  ignore_paths?: string[]
+  ignore_linguist_generated?: boolean
+}): LocalDecision {
+  const is_ignored = buildIgnoreMatcher({
+    ignore_paths,
+    gitattributes: ignore_linguist_generated
+      ? gitShowFile({repo_path, ref: base_ref, path: '.gitattributes'})
+      : null,
+  })
+  const curr_merge_base = gitMergeBase({repo_path, a: base_ref, b: head})
+
+  const range_diff_output = runRangeDiff({
+    repoPath: repo_path,
+    prevMergeBase: prev_merge_base,
+    approvedSha: approved_sha,
+    currMergeBase: curr_merge_base,
+    currentHead: head,
+  })
+  const range_diff =
+    range_diff_output === null
+      ? null
+      : parseRangeDiffOutput(range_diff_output, is_ignored)
+  if (range_diff?.status === 'not_stale') {
+    return {
+      is_stale: false,
+      method: 'range-diff',
+      reason: 'Range-diff shows no changes to commits since approval.',
+      range_diff,
+      changed_files: null,
+      ignored_changes: [],
+    }
+  }
+
+  const reviewed_raw =
+    reviewed_diff ??
+    gitDiff({repo_path, base: prev_merge_base, head: approved_sha})
+  const normalized_reviewed = reviewed_raw ? normalizeDiff(reviewed_raw) : null
+  const options = {diff_comparison, ignore_whitespace, is_ignored}
+  const reviewed = comparableDiff(normalized_reviewed, options)
+
+  let current_raw = gitDiff({repo_path, base: curr_merge_base, head})
+  let current = comparableDiff(
+    current_raw && normalizeDiff(current_raw),
+    options
+  )
+  let method: LocalDecision['method'] = 'three-dot'
+  if (current && reviewed && reviewed.diff !== current.diff) {
+    // As in dismissIfStale, fall back to the two-dot diff in case the base branch
+    // merged changes which the three-dot diff attributes to the PR.
+    current_raw = gitDiff({repo_path, base: base_ref, head, ignore_whitespace})
+    if (current_raw === null) {
+      return {
+        is_stale: true,
+        method: 'pessimistic',
+        reason: 'Unable to compute two-dot diff (too large or failed).',
+        range_diff,
+        changed_files: null,
+        ignored_changes: [],
+      }
+    }
+    current = comparableDiff(normalizeDiff(current_raw), options)
+    method = 'two-dot'
+  }
+
+  if (!reviewed || !current) {
+    return {
+      is_stale: reviewed !== current,
+      method: reviewed === current ? method : 'pessimistic',
+      reason:
+        reviewed === current
+          ? 'Neither the reviewed nor the current diff has changes.'
+          : `Unable to compute the ${reviewed ? 'current' : 'reviewed'} diff.`,
+      range_diff,
+      changed_files: null,
+      ignored_changes: [],
+    }
+  }
+  const changed_files = changedFiles(reviewed.files, current.files)
+  const ignored_changes = changedFiles(reviewed.ignored, current.ignored)
+  return {
+    is_stale: reviewed.diff !== current.diff,
+    method,
+    reason:
+      reviewed.diff === current.diff
+        ? 'The diff is unchanged since approval.'
+        : 'The diff has changed since approval.',
+    range_diff,
+    changed_files,
+    ignored_changes,
+  }
+}
+
+const USAGE = `Usage: node lib/cli.js [options]
+
+Decide whether a PR approval is stale, using only a local repository.
+
+Options:
+  --repo <path>               Local repository (default: .)
+  --metadata <path>           approval-metadata.json written by snapshot-approval;
+                              provides the SHAs and base ref below
+  --approved-sha <sha>        The approved commit
+  --prev-merge-base <sha>     The merge base at the time of approval
+  --base-ref <ref>            The base branch (as a local or remote-tracking ref)
+  --head <sha>                The current head of the PR (default: HEAD)
+  --reviewed-diff <path>      A cached approved.diff to use as the reviewed diff
+  --diff-comparison <mode>    exact (default) or changed-lines
+  --ignore-whitespace         Ignore whitespace-only changes
+  --ignore-path <pattern>     Ignore changes to matching files (repeatable)
+  --ignore-linguist-generated Ignore files marked linguist-generated
+  --help                      Show this message
+
+Exits with 0 if the approval is not stale, 1 if it is and 2 on usage errors or
+if the decision can't be made (e.g. git fails).`
+
+/**
+ * Run the CLI with the given arguments.
+ *
+ * @returns the process exit code
+ */
+export function runCli(args: string[]): number {
+  let values
+  try {
+    values = parseArgs({
+      args,
+      options: {
+        repo: {type: 'string', default: '.'},
+        metadata: {type: 'string'},
+        'approved-sha': {type: 'string'},
+        'prev-merge-base': {type: 'string'},
+        'base-ref': {type: 'string'},
+        head: {type: 'string', default: 'HEAD'},
+        'reviewed-diff': {type: 'string'},
+        'diff-comparison': {type: 'string', default: 'exact'},
+        'ignore-whitespace': {type: 'boolean', default: false},
+        'ignore-path': {type: 'string', multiple: true, default: []},
+        'ignore-linguist-generated': {type: 'boolean', default: false},
+        help: {type: 'boolean', default: false},
+      },
+    }).values
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`
+    )
+    return 2
+  }
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`)
+    return 0
+  }
+
+  let metadata: ApprovalMetadata | null = null
+  let reviewed_diff: string | null = null
+  try {
+    if (values.metadata) {
+      metadata = parseApprovalMetadata(
+        fs.readFileSync(values.metadata, {encoding: 'utf8'})
+      )
+    }
+    if (values['reviewed-diff']) {
+      reviewed_diff = fs.readFileSync(values['reviewed-diff'], {
+        encoding: 'utf8',
+      })
+    }
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`
+    )
+    return 2
+  }
+  const approved_sha = values['approved-sha'] ?? metadata?.approved_sha
+  const prev_merge_base = values['prev-merge-base'] ?? metadata?.merge_base_sha
+  const base_ref = values['base-ref'] ?? metadata?.base_ref
+  const diff_comparison = values['diff-comparison']
+  if (!approved_sha || !prev_merge_base || !base_ref) {
+    process.stderr.write(
+      `Either --metadata or all of --approved-sha, --prev-merge-base and --base-ref are required.\n\n${USAGE}\n`
+    )
+    return 2
+  }
+  if (diff_comparison !== 'exact' && diff_comparison !== 'changed-lines') {
+    process.stderr.write('--diff-comparison must be exact or changed-lines.\n')
+    return 2
+  }
+
+  let decision: LocalDecision
+  try {
+    decision = evaluateLocally({
+      repo_path: values.repo as string,
+      approved_sha,
+      prev_merge_base,
+      head: values.head as string,
+      base_ref,
+      reviewed_diff,
+      diff_comparison,
+      ignore_whitespace: values['ignore-whitespace'] as boolean,
+      ignore_paths: values['ignore-path'] as string[],
+      ignore_linguist_generated: values['ignore-linguist-generated'] as boolean,
+    })
+  } catch (error) {
+    // E.g. a missing repository or an unknown ref: exiting with 1 would read as a
+    // stale verdict.
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`
+    )
+    return 2
+  }
+  process.stdout.write(`${formatDecision(decision)}\n`)
+  return decision.is_stale ? 1 : 0
+}
+
+export function formatDecision(decision: LocalDecision): string {
+  const lines = [
+    'Range-diff:',
+    decision.range_diff
+      ? `  ${decision.range_diff.status}: ${decision.range_diff.summary}`
+      : '  unavailable',
+    '',
+    'Diff comparison:',
+  ]
+  if (decision.method === 'range-diff') {
+    lines.push('  skipped (range-diff shows no changes)')
+  } else {
+    lines.push(`  method: ${decision.method}`)
+    if (decision.changed_files !== null) {
+      lines.push(
+        `  changed files: ${decision.changed_files.join(', ') || '(none)'}`
+      )
+    }
+    if (decision.ignored_changes.length > 0) {
+      lines.push(`  ignored changes: ${decision.ignored_changes.join(', ')}`)
+    }
+  }
+  lines.push(
+    '',
+    `Verdict: ${decision.is_stale ? 'STALE' : 'NOT STALE'}`,
+    `  ${decision.reason}`
+  )
+  return lines.join('\n')
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2))
+}
@@ -0,0 +1,124 @@
+// Module for resolving the code owners[1] of files in the repository.
+//
+// [1] https://docs.github.com/en/repositories/managing-your-repositorys-settings-and-features/customizing-your-repository/about-code-owners
+
+import * as core from '@actions/core'
+import {minimatch} from 'minimatch'
+import {anchorPattern} from './ignore-paths'
+
+// The locations GitHub looks for the CODEOWNERS file in, in order of precedence.
+export const CODEOWNERS_PATHS = [
+  '.github/CODEOWNERS',
+  'CODEOWNERS',
+  'docs/CODEOWNERS',
+]
+
+interface CodeownersRule {
+  pattern: string
+  // Owners as written in the file, e.g. "@user", "@org/team" or an email address.
+  owners: string[]
+}
+
+/**
+ * Parse the rules of a CODEOWNERS file, in the order they appear.
+ */
+export function parseCodeowners(contents: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = []
+  for (const rawLine of contents.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim()
+    if (!line) {
+      continue
+    }
+    const [pattern, ...owners] = line.split(/\s+/)
+    rules.push({pattern: toCodeownersGlob(pattern), owners})
+  }
+  return rules
+}
+
+// Translate a CODEOWNERS pattern to a minimatch glob. A pattern naming a directory
+// also matches everything in it, but unlike in .gitignore a wildcard only matches
+// within its directory, e.g. "docs/*" doesn't match "docs/sub/b.md".
+function toCodeownersGlob(pattern: string): string {
+  const glob = anchorPattern(pattern)
+  const last_segment = glob.slice(glob.lastIndexOf('/') + 1)
+  return /[*?[]/.test(last_segment) ? glob : `${glob}{,/**}`
+}
+
+export class Codeowners {
+  rules: CodeownersRule[]
+  getTeamMembers: (org: string, team_slug: string) => Promise<string[]>
+  team_members: Map<string, Promise<string[] | null>>
+
+  constructor(
+    rules: CodeownersRule[],
+    getTeamMembers: (org: string, team_slug: string) => Promise<string[]>
+  ) {
+    this.rules = rules
+    this.getTeamMembers = getTeamMembers
+    this.team_members = new Map()
+  }
+
+  // Get the owners of a file. As in GitHub, the last matching rule wins.
+  ownersOf(path: string): string[] {
+    let owners: string[] = []
+    for (const rule of this.rules) {
+      if (minimatch(path, rule.pattern, {dot: true})) {
+        owners = rule.owners
+      }
+    }
+    return owners
+  }
+
+  // Whether the user owns at least one of the files, either directly or through
+  // membership of an owning team.
+  async ownsAny(login: string, paths: string[]): Promise<boolean> {
+    const owners = new Set<string>()
+    for (const path of paths) {
+      for (const owner of this.ownersOf(path)) {
+        owners.add(owner)
+      }
+    }
+    for (const owner of owners) {
+      if (await this.isOrIncludes(owner, login)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  private async isOrIncludes(owner: string, login: string): Promise<boolean> {
+    if (!owner.startsWith('@')) {
+      // Email owners can't be mapped to a GitHub login.
+      return false
+    }
+    const name = owner.slice(1)
+    if (!name.includes('/')) {
+      return name.toLowerCase() === login.toLowerCase()
+    }
+    let members = this.team_members.get(name)
+    if (members === undefined) {
+      members = this.fetchTeamMembers(name)
+      this.team_members.set(name, members)
+    }
+    const resolved = await members
+    if (resolved === null) {
+      // Pessimistically consider the user a member of teams we can't resolve.
+      return true
+    }
+    return resolved.some(member => member.toLowerCase() === login.toLowerCase())
+  }
+
+  private async fetchTeamMembers(team: string): Promise<string[] | null> {
+    const [org, team_slug] = team.split('/')
+    try {
+      return await this.getTeamMembers(org, team_slug)
+    } catch (error) {
+      core.warning(
+        `Unable to list members of team @${team}, treating all reviewers as members: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return null
+    }
+  }
+}
@@ -0,0 +1,43 @@
+// Module for preparing the reviewed and current diffs of a PR for comparison.
+
+import {canonicalizeDiff, ignoreWhitespaceChanges} from './diff'
+import {FilteredDiff, PathMatcher, filterDiff} from './ignore-paths'
+
+// How the reviewed and current diffs are compared:
+// - exact: the diffs must be identical (apart from the index lines)
+// - changed-lines: only the added and removed lines of each file must be identical,
+//   so that shifted hunk offsets and context lines (e.g. after a rebase) are ignored
+// Independently of the mode, whitespace changes may be ignored, which implies
+// changed-lines.
+export type DiffComparison = 'exact' | 'changed-lines'
+
+/**
+ * Canonicalize a (normalized) diff according to the comparison mode and drop the
+ * ignored files from it, so that it can be compared to another diff prepared the
+ * same way.
+ *
+ * @returns the filtered diff, or null if there is no diff
+ */
+export function comparableDiff(
+  diff: string | null,
+  {
+    diff_comparison,
+    ignore_whitespace,
+    is_ignored,
+  }: {
+    diff_comparison: DiffComparison
+    ignore_whitespace: boolean
+    is_ignored: PathMatcher
+  }
+): FilteredDiff | null {
+  if (!diff) {
+    return null
+  }
+  let canonical = diff
+  if (ignore_whitespace) {
+    canonical = ignoreWhitespaceChanges(diff)
+  } else if (diff_comparison === 'changed-lines') {
+    canonical = canonicalizeDiff(diff)
+  }
+  return filterDiff(canonical, is_ignored)
+}
@@ -0,0 +1,224 @@
+// Module for splitting unified diffs (as produced by `git diff` or the GitHub API)
+// into per-file sections.
+
+export interface FileDiff {
+  // Path of the file after the change (or before the change if it was deleted).
+  path: string
+  // The full text of the file's section of the diff, starting with its
+  // "diff --git" header line.
+  text: string
+}
+
+export function normalizeDiff(diff: string): string {
+  // Normalize the diff by dropping the file hash metadata[1]
+  // because we are only concerned with the changes in the file contents which the
+  // reviewer would have seen.
+  //
+  // [1] https://www.git-tower.com/learn/git/ebook/en/command-line/advanced-topics/diffs
+  //     Basically, these are the "index <sha1>..<sha2>" lines in the diff output.
+  //     Note that these lines may be terminated by an optional " <mode>" suffix.
+  return diff.replace(/^index [0-9a-f]+\.\.[0-9a-f]+/gm, '')
+}
+
+/**
+ * Split a unified diff into per-file sections. Any text before the first file
+ * section is dropped, and each section's text excludes its trailing newline.
+ */
+export function splitDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = []
+  const lines = diff.split('\n')
+  let current: string[] | null = null
+  const flush = (): void => {
+    if (current) {
+      while (current.length > 1 && current[current.length - 1] === '') {
+        current.pop()
+      }
+      files.push({path: parseFilePath(current), text: current.join('\n')})
+    }
+  }
+  for (const line of lines) {
+    if (line.startsWith('diff --git ')) {
+      flush()
+      current = []
+    }
+    if (current) {
+      current.push(line)
+    }
+  }
+  flush()
+  return files
+}
+
+export function joinDiff(files: FileDiff[]): string {
+  return files.map(file => `${file.text}\n`).join('')
+}
+
+/**
+ * Canonicalize a diff so that only the added and removed lines of each file matter,
+ * similar to `git patch-id --stable`. Hunk headers (whose line offsets shift when a
+ * rebase changes earlier parts of a file) and unchanged context lines are dropped.
+ */
+export function canonicalizeDiff(diff: string): string {
+  return joinDiff(
+    splitDiff(diff).map(file => {
+      const lines = file.text.split('\n')
+      const hunk_start = lines.findIndex(line => line.startsWith('@@'))
+      if (hunk_start === -1) {
+        return file
+      }
+      const changes = lines
+        .slice(hunk_start)
+        .filter(
+          line =>
+            line.startsWith('+') ||
+            line.startsWith('-') ||
+            line.startsWith('\\')
+        )
+      return {
+        path: file.path,
+        text: [...lines.slice(0, hunk_start), ...changes].join('\n'),
+      }
+    })
+  )
+}
+
+/**
+ * Canonicalize a diff (as canonicalizeDiff does) while also ignoring whitespace,
+ * similar to `git diff -w --ignore-blank-lines`:
+ * - whitespace within changed lines is removed (including CRLF line endings)
+ * - changed lines which are blank are dropped, as are "no newline" markers
+ * - within each run of changed lines, removed and added lines which are equal once
+ *   whitespace is removed cancel out, from the start and end of the run
+ * - files left without changes are dropped
+ *
+ * Because the result doesn't depend on the whitespace of the input, diffs from
+ * `git diff -w` and from the GitHub API (which can't ignore whitespace) compare equal.
+ */
+export function ignoreWhitespaceChanges(diff: string): string {
+  const files: FileDiff[] = []
+  for (const file of splitDiff(diff)) {
+    const lines = file.text.split('\n')
+    const hunk_start = lines.findIndex(line => line.startsWith('@@'))
+    if (hunk_start === -1) {
+      // `git diff -w` prints only the header of files with whitespace-only changes.
+      if (
+        lines.some(line =>
+          /^(old mode|new mode|deleted file|new file|rename|copy|Binary)/.test(
+            line
+          )
+        )
+      ) {
+        files.push(file)
+      }
+      continue
+    }
+    const changes: string[] = []
+    let removed: string[] = []
+    let added: string[] = []
+    const flush = (): void => {
+      changes.push(...cancelWhitespaceChanges(removed, added))
+      removed = []
+      added = []
+    }
+    for (const line of lines.slice(hunk_start)) {
+      const stripped = line.slice(1).replace(/\s+/g, '')
+      if (line.startsWith('-')) {
+        if (stripped) removed.push(stripped)
+      } else if (line.startsWith('+')) {
+        if (stripped) added.push(stripped)
+      } else if (!line.startsWith('\\')) {
+        flush()
+      }
+    }
+    flush()
+    if (changes.length > 0) {
+      files.push({
+        path: file.path,
+        text: [...lines.slice(0, hunk_start), ...changes].join('\n'),
+      })
+    }
+  }
+  return joinDiff(files)
+}
+
+// Cancel the common leading and trailing lines of a run of removed and added lines.
+function cancelWhitespaceChanges(removed: string[], added: string[]): string[] {
+  let start = 0
+  while (
+    start < removed.length &&
+    start < added.length &&
+    removed[start] === added[start]
+  ) {
+    start++
+  }
+  let end = 0
+  while (
+    end < removed.length - start &&
+    end < added.length - start &&
+    removed[removed.length - 1 - end] === added[added.length - 1 - end]
+  ) {
+    end++
+  }
+  return [
+    ...removed.slice(start, removed.length - end).map(line => `-${line}`),
+    ...added.slice(start, added.length - end).map(line => `+${line}`),
+  ]
+}
+
+/**
+ * List the files whose changes differ between two diffs (including files which are
+ * only changed in one of them), sorted by path.
+ */
+export function changedFiles(a: FileDiff[], b: FileDiff[]): string[] {
+  const a_by_path = new Map(a.map(file => [file.path, file.text]))
+  const b_by_path = new Map(b.map(file => [file.path, file.text]))
+  const paths = new Set([...a_by_path.keys(), ...b_by_path.keys()])
+  return [...paths]
+    .filter(path => a_by_path.get(path) !== b_by_path.get(path))
+    .sort((x, y) => x.localeCompare(y))
+}
+
+// Determine the path of a file from its diff section, preferring the explicit
+// rename / +++ / --- lines over the "diff --git" header (which is ambiguous when
+// paths contain spaces).
+function parseFilePath(section: string[]): string {
+  let old_path: string | null = null
+  for (const line of section) {
+    if (line.startsWith('rename to ')) {
+      return line.slice('rename to '.length)
+    }
+    if (line.startsWith('+++ ')) {
+      const path = line.slice('+++ '.length)
+      if (path !== '/dev/null') {
+        return stripPrefix(path, 'b/')
+      }
+    }
+    if (line.startsWith('--- ')) {
+      const path = line.slice('--- '.length)
+      if (path !== '/dev/null') {
+        old_path = stripPrefix(path, 'a/')
+      }
+    }
+    if (line.startsWith('@@')) {
+      break
+    }
+  }
+  if (old_path !== null) {
+    return old_path
+  }
+  // Binary files and mode-only changes have no ---/+++ lines, so fall back to the
+  // header. For an unrenamed file the header is "diff --git a/<path> b/<path>".
+  const header = section[0].slice('diff --git '.length)
+  const path = header.slice((header.length + 3) / 2)
+  if (header === `a/${path} b/${path}`) {
+    return path
+  }
+  const b = header.lastIndexOf(' b/')
+  return b === -1 ? header : header.slice(b + 3)
+}
+
+function stripPrefix(path: string, prefix: string): string {
+  // git terminates paths containing spaces with a tab in ---/+++ lines.
+  const trimmed = path.endsWith('\t') ? path.slice(0, -1) : path
+  return trimmed.startsWith(prefix) ? trimmed.slice(prefix.length) : trimmed
+}
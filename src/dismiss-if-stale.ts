@@ -6,29 +6,100 @@
 import fs from 'fs'
 import * as core from '@actions/core'
 import * as github from '@actions/github'
-import {PayloadRepository} from '@actions/github/lib/interfaces'
-import {PullRequest} from './pull-request'
-import {execSync, spawnSync} from 'child_process'
+import {WebhookPayload} from '@actions/github/lib/interfaces'
+import {MergedPullRequest, PullRequest, Review} from './pull-request'
 import {
   ApprovalMetadata,
+  changedApprovedBlobs,
+  changedApprovedFiles,
+  parseApprovalMetadata,
+} from './approval-metadata'
+import {
+  ChangeSize,
+  SmallChangePolicy,
+  describeChangeSize,
+  evaluateSmallChange,
+} from './change-size'
+import {CODEOWNERS_PATHS, Codeowners, parseCodeowners} from './codeowners'
+import {changedFiles, normalizeDiff, splitDiff} from './diff'
+import {DiffComparison, comparableDiff} from './diff-comparison'
+import {
+  FileInterdiff,
+  INTERDIFF_COMMENT_MARKER,
+  computeInterdiff,
+  renderInterdiffComment,
+} from './interdiff'
+import {FilteredDiff, PathMatcher, buildIgnoreMatcher} from './ignore-paths'
+import {
+  addApprovalsSummary,
+  addDiffSizesSummary,
+  addRangeDiffSummary,
+  addReviewDetail,
+  addReviewHeading,
+  addVerdictSummary,
+  describeDiffSize,
+  writeJobSummary,
+} from './job-summary'
+import {ChangedBlob, gitChangedBlobs, gitDiff} from './git'
+import {verifySnapshot} from './snapshot-signature'
+import {Snapshot, SnapshotStore} from './snapshot-store'
+import {DeepenResult, PreparedRepo, timed} from './prepared-repo'
+import {
+  RangeDiffCommit,
+  RangeDiffResult,
+  parseRangeDiffCommits,
   parseRangeDiffOutput,
   runRangeDiff,
 } from './range-diff'
 
-// assumes that there exists at least one approval to dismiss
 export async function dismissIfStale({
   token,
-  path_to_cached_diff,
-  path_to_cached_metadata,
+  api_url,
+  snapshot_store,
+  snapshot_signing_key,
   repo_path,
   range_diff_fetch_depth,
+  range_diff_max_fetch_depth,
+  ignore_paths,
+  ignore_linguist_generated,
+  codeowners_aware,
+  non_owner_approvals,
+  small_change,
+  diff_comparison,
+  ignore_whitespace,
+  comment_on_dismissal,
+  rerequest_reviews,
+  skip_label,
+  re_review_label,
+  dry_run,
 }: {
   token: string
-  path_to_cached_diff: string
-  path_to_cached_metadata: string
+  api_url: string
+  snapshot_store: SnapshotStore
+  // Key the snapshots must be signed with to be trusted, or empty to trust unsigned
+  // snapshots.
+  snapshot_signing_key: string
   repo_path: string
   range_diff_fetch_depth: number
-}): Promise<void> {
+  // The deepest to deepen a shallow fetch to when the commit ranges are cut off (0
+  // for no limit).
+  range_diff_max_fetch_depth: number
+  ignore_paths: string[]
+  ignore_linguist_generated: boolean
+  codeowners_aware: boolean
+  non_owner_approvals: NonOwnerApprovalPolicy
+  small_change: SmallChangePolicy
+  diff_comparison: DiffComparison
+  ignore_whitespace: boolean
+  comment_on_dismissal: boolean
+  rerequest_reviews: boolean
+  // Label which, if applied by a maintainer or admin, skips the check; empty to
+  // disable.
+  skip_label: string
+  // Label to apply when dismissing approvals; empty to disable.
+  re_review_label: string
+  dry_run: boolean
+}): Promise<DismissalResult> {
   // Only run if the PR's branch was updated (synchronize) or the base branch
   // was changed (edited event was triggered and the changes field of the event
   // indicates the base being changed).
@@ -49,76 +120,685 @@ export async function dismissIfStale({
       `event action is ${github.context.payload.action}, ` +
         `complete payload=${github.context.payload}; skipping dismissal check.`
     )
-    return
+    return reportResult(
+      notEvaluated(
+        `Event action ${github.context.payload.action} doesn't change the diff.`
+      ),
+      dry_run
+    )
   }
 
-  const pull_request = new PullRequest(token)
+  const pull_request = new PullRequest(token, {api_url})
+  if (pull_request.is_fork && github.context.eventName === 'pull_request') {
+    core.warning(
+      'The pull request is from a fork, for which pull_request workflows only get a ' +
+        'read-only token. Run dismiss-stale-reviews on pull_request_target instead.'
+    )
+  }
   const diffs_dir = core.getInput('diffs_directory')
   const pull_request_payload = github.context.payload.pull_request
   if (!pull_request_payload) {
     throw new Error('This action must be run on a pull request.')
   }
+  if (
+    skip_label &&
+    (await hasSkipLabel(pull_request, pull_request_payload.labels, skip_label))
+  ) {
+    return reportResult(
+      notEvaluated(`The ${skip_label} label skips the dismissal check.`),
+      dry_run
+    )
+  }
 
-  // Try range-diff check first as a "fast pass" - if it shows no changes,
-  // we can exit early without doing the more expensive diff comparison.
-  const rangeDiffResult = await tryRangeDiffCheck({
-    path_to_cached_metadata,
+  // Each approval is evaluated against the diff that its reviewer saw, so that
+  // reviewers who approved the current code keep their approvals even if an earlier
+  // (or later) approval was of a different diff.
+  const approved_reviews = await pull_request.getApprovedReviews()
+  if (approved_reviews.length === 0) {
+    core.info('No approvals on the pull request; nothing to dismiss.')
+    addApprovalsSummary([])
+    return reportResult(
+      notEvaluated('No approvals on the pull request.'),
+      dry_run
+    )
+  }
+  const latest_review = approved_reviews[approved_reviews.length - 1]
+
+  const is_ignored = await loadIgnoreMatcher({
     pull_request,
+    ignore_paths,
+    ignore_linguist_generated,
+    base_ref: pull_request_payload.base.ref,
+  })
+
+  const codeowners = codeowners_aware
+    ? await loadCodeowners(pull_request, pull_request_payload.base.ref)
+    : null
+
+  const repository = github.context.payload.repository
+  if (!repository) {
+    throw new Error('No repository in the event payload.')
+  }
+  const current_head: string = pull_request_payload.head.sha
+  const prepared_repo = new PreparedRepo({
     repo_path,
     token,
-    current_head: pull_request_payload.head.sha,
+    repository,
+    pull_head: pullHead(pull_request, current_head),
+    max_depth: range_diff_max_fetch_depth,
+  })
+  const stack_parent = await findStackParent(
+    pull_request,
+    github.context.payload
+  )
+  if (stack_parent) {
+    prepared_repo.plan([stack_parent.merge_commit_sha, current_head], 1)
+  }
+  const current_diffs = new CurrentDiff({
+    pull_request,
+    prepared_repo,
+    base_sha: pull_request_payload.base.sha,
+    head_sha: current_head,
+    stack_parent,
+    diffs_dir,
+    ignore_whitespace,
+  })
+
+  // Load the approvals' snapshots up front so that all the commits which range-diff
+  // and the two-dot diff may need are fetched at once.
+  const snapshots = new Map<number, ReviewSnapshot>()
+  for (const review of approved_reviews) {
+    snapshots.set(
+      review.id,
+      await loadSnapshot({
+        review,
+        is_latest: review.id === latest_review.id,
+        snapshot_store,
+        snapshot_signing_key,
+      })
+    )
+  }
+  addApprovalsSummary(
+    approved_reviews.map(review => ({
+      review,
+      snapshot: describeSnapshot(snapshots.get(review.id) as ReviewSnapshot),
+    }))
+  )
+  const current_merge_base = await planFetch({
+    prepared_repo,
+    pull_request,
+    snapshots: [...snapshots.values()],
     base_ref: pull_request_payload.base.ref,
+    base_sha: pull_request_payload.base.sha,
+    current_head,
     range_diff_fetch_depth,
   })
 
-  if (rangeDiffResult === 'not_stale') {
-    core.notice(
-      'Range-diff shows no changes to commits since approval. Review is not stale.'
+  // Group the stale reviews by dismissal message so that each dismissal records why
+  // that particular review was considered stale.
+  const stale_reviews = new Map<string, Review[]>()
+  const dismissed: {review: Review; decision: ReviewDecision}[] = []
+  const decisions: {review: Review; decision: ReviewDecision}[] = []
+  for (const review of approved_reviews) {
+    addReviewHeading(review)
+    const decision = await applyKeepPolicies({
+      review,
+      decision: await evaluateReview({
+        review,
+        snapshot: snapshots.get(review.id) as ReviewSnapshot,
+        pull_request,
+        current_diffs,
+        prepared_repo,
+        is_ignored,
+        diff_comparison,
+        ignore_whitespace,
+        current_merge_base,
+        current_head,
+        range_diff_fetch_depth,
+        diffs_dir,
+      }),
+      small_change,
+      codeowners,
+      non_owner_approvals,
+    })
+    decisions.push({review, decision})
+    addReviewDetail(
+      'Decision',
+      `${decision.is_stale ? 'stale' : 'not stale'} (${decision.method}): ${
+        decision.msg
+      }`
     )
-    return
+    if (!decision.is_stale) {
+      continue
+    }
+    const {msg} = decision
+    core.notice(`Review ${review.id} by ${review.user?.login}: ${msg}`)
+    stale_reviews.set(msg, [...(stale_reviews.get(msg) ?? []), review])
+    dismissed.push({review, decision})
   }
 
-  // For 'stale' and 'fallback', continue to diff comparison.
-  // We don't short-circuit on 'stale' because range-diff operates per-commit:
-  // a commit could introduce a code change that a later commit reverts,
-  // making the net PR diff unchanged. Only full diff comparison can catch that.
+  const changed_files = new Set<string>()
+  for (const {decision} of dismissed) {
+    for (const path of decision.changed_files ?? []) {
+      changed_files.add(path)
+    }
+  }
+  const summary =
+    dismissed.length > 0
+      ? dismissed[0].decision
+      : decisions[decisions.length - 1].decision
+  const result: DismissalResult = {
+    is_stale: dismissed.length > 0,
+    decision_method: summary.method,
+    reason: summary.msg,
+    change_size: summary.change_size ?? null,
+    dismissed_review_ids: dismissed.map(({review}) => review.id),
+    changed_files: [...changed_files].sort((a, b) => a.localeCompare(b)),
+    failed_review_ids: [],
+    rerequested_reviewers: [],
+    rerequested_teams: [],
+    reviews: decisions.map(({review, decision}) => ({
+      review_id: review.id,
+      reviewer: review.user?.login ?? null,
+      is_stale: decision.is_stale,
+      method: decision.method,
+      reason: decision.msg,
+      range_diff: decision.range_diff_outcome,
+      changed_files: decision.changed_files,
+      interdiff: decision.interdiff,
+    })),
+  }
+  const author = pull_request_payload.user?.login
+  addDiffSizesSummary(await current_diffs.getComputedDiffs())
 
-  let reviewed_diff = await genReviewedDiff(path_to_cached_diff, pull_request)
-  if (reviewed_diff) {
-    reviewed_diff = normalizeDiff(reviewed_diff)
-    const reviewed_diff_snippet = reviewed_diff.slice(0, 5000)
-    core.debug(
-      `reviewed_diff (first 5000 characters):\n${reviewed_diff_snippet}`
+  if (dry_run) {
+    if (dismissed.length > 0) {
+      core.notice(
+        `Dry run: not dismissing stale review(s) ${result.dismissed_review_ids.join(
+          ', '
+        )}.`
+      )
+    }
+    if (rerequest_reviews && dismissed.length > 0) {
+      const rerequest = await findReviewersToRerequest(
+        pull_request,
+        dismissed.map(({review}) => review),
+        author
+      )
+      result.rerequested_reviewers = rerequest.reviewers
+      result.rerequested_teams = rerequest.team_reviewers
+    }
+    return reportResult(result, dry_run)
+  }
+
+  if (comment_on_dismissal && dismissed.length > 0) {
+    try {
+      await pull_request.upsertComment(
+        INTERDIFF_COMMENT_MARKER,
+        renderInterdiffComment({
+          sections: dismissed.map(({review, decision}) => ({
+            heading: `Review ${review.id} by @${review.user?.login}: ${decision.msg}`,
+            range_diff_summary: decision.range_diff_summary,
+            interdiff: decision.interdiff,
+          })),
+          artifacts_url: diffs_dir ? workflowRunUrl() : null,
+        })
+      )
+    } catch (error) {
+      core.warning(
+        `Unable to comment with the changes since approval: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+
+  for (const [msg, reviews] of stale_reviews) {
+    const failures = await pull_request.dismissApprovals(msg, reviews)
+    result.failed_review_ids.push(...failures.map(({review_id}) => review_id))
+  }
+  const failed = new Set(result.failed_review_ids)
+  const dismissed_reviews = dismissed
+    .map(({review}) => review)
+    .filter(review => !failed.has(review.id))
+  result.dismissed_review_ids = dismissed_reviews.map(review => review.id)
+
+  if (re_review_label && dismissed_reviews.length > 0) {
+    try {
+      await pull_request.addLabel(re_review_label)
+    } catch (error) {
+      core.warning(
+        `Unable to apply the ${re_review_label} label: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+  if (rerequest_reviews && dismissed_reviews.length > 0) {
+    await rerequestReviews(
+      pull_request,
+      await findReviewersToRerequest(pull_request, dismissed_reviews, author),
+      result
     )
-    if (diffs_dir) {
-      fs.writeFileSync(`${diffs_dir}/reviewed.diff`, reviewed_diff)
+  }
+  return reportResult(result, dry_run)
+}
+
+// Report the result as the verdict of the job summary, and write the summary.
+async function reportResult(
+  result: DismissalResult,
+  dry_run: boolean
+): Promise<DismissalResult> {
+  let verdict: string
+  if (result.decision_method === 'not-evaluated') {
+    verdict = 'Not evaluated.'
+  } else if (!result.is_stale) {
+    verdict = 'No approvals are stale.'
+  } else if (dry_run) {
+    verdict = `Dry run: would dismiss ${result.dismissed_review_ids.length} stale approval(s).`
+  } else {
+    verdict = `Dismissed ${result.dismissed_review_ids.length} stale approval(s).`
+  }
+  const details = [
+    `Decision method: ${result.decision_method}`,
+    `Reason: ${result.reason}`,
+  ]
+  if (result.dismissed_review_ids.length > 0) {
+    details.push(`Dismissed reviews: ${result.dismissed_review_ids.join(', ')}`)
+  }
+  if (result.failed_review_ids.length > 0) {
+    details.push(
+      `Reviews which failed to be dismissed: ${result.failed_review_ids.join(
+        ', '
+      )}`
+    )
+  }
+  if (result.changed_files.length > 0) {
+    details.push(`Changed files: ${result.changed_files.join(', ')}`)
+  }
+  addVerdictSummary(verdict, details)
+  await writeJobSummary()
+  return result
+}
+
+// How the decision of whether a review is stale was made:
+// - range-diff: range-diff showed no code changes to the commits since approval
+// - three-dot / two-dot: the reviewed diff was compared against the current
+//   three-dot (or, if that differed, two-dot) diff
+// - stacked: the PR was retargeted after its base branch was merged, and the
+//   reviewed diff was compared against the PR's diff relative to the merged branch
+// - pessimistic: a diff couldn't be computed, so the review is considered stale
+// - not-evaluated: there was nothing to evaluate (e.g. no approvals)
+export type DecisionMethod =
+  | 'range-diff'
+  | 'three-dot'
+  | 'two-dot'
+  | 'stacked'
+  | 'pessimistic'
+  | 'not-evaluated'
+
+export interface DismissalResult {
+  // Whether any reviews were (or, in a dry run, would have been) dismissed.
+  is_stale: boolean
+  // The decision method and reason of the first dismissed review, or of the most
+  // recent approval if none were dismissed.
+  decision_method: DecisionMethod
+  reason: string
+  // The size of the changes since approval of the same review, if measured for the
+  // small change policy.
+  change_size: ChangeSize | null
+  dismissed_review_ids: number[]
+  // Stale approvals which failed to be dismissed (e.g. after running out of
+  // retries).
+  failed_review_ids: number[]
+  // Files whose changes differ from what the dismissed reviews approved.
+  changed_files: string[]
+  // The users and teams (by slug) whose reviews were (or, in a dry run, would have
+  // been) re-requested after dismissing their approvals.
+  rerequested_reviewers: string[]
+  rerequested_teams: string[]
+  // How each approval was evaluated, in chronological order.
+  reviews: ReviewOutcome[]
+}
+
+export interface ReviewOutcome {
+  review_id: number
+  reviewer: string | null
+  // Whether the approval is (or, in a dry run, would be) dismissed.
+  is_stale: boolean
+  method: DecisionMethod
+  reason: string
+  // What range-diff found, or why it wasn't run.
+  range_diff: string
+  // See ReviewDecision.
+  changed_files: string[] | null
+  interdiff: FileInterdiff[] | null
+}
+
+function notEvaluated(reason: string): DismissalResult {
+  return {
+    is_stale: false,
+    decision_method: 'not-evaluated',
+    reason,
+    change_size: null,
+    dismissed_review_ids: [],
+    failed_review_ids: [],
+    changed_files: [],
+    rerequested_reviewers: [],
+    rerequested_teams: [],
+    reviews: [],
+  }
+}
+
+export interface RerequestTargets {
+  reviewers: string[]
+  team_reviewers: string[]
+}
+
+/**
+ * Choose whom to re-request reviews from after dismissing the given approvals: each
+ * reviewer, and each team an approval was submitted on behalf of. Bots and the PR's
+ * author can't be requested to review, so they're skipped.
+ */
+export function selectRerequestTargets({
+  reviews,
+  review_teams,
+  author,
+}: {
+  reviews: Review[]
+  review_teams: Map<number, string[]>
+  author: string | undefined
+}): RerequestTargets {
+  const reviewers = new Set<string>()
+  const team_reviewers = new Set<string>()
+  for (const review of reviews) {
+    if (!review.user || review.user.type === 'Bot') {
+      continue
+    }
+    if (review.user.login !== author) {
+      reviewers.add(review.user.login)
+    }
+    for (const team of review_teams.get(review.id) ?? []) {
+      team_reviewers.add(team)
     }
   }
+  return {reviewers: [...reviewers], team_reviewers: [...team_reviewers]}
+}
 
-  // Generate the current diff.
-  let current_diff: string | null = null
+async function findReviewersToRerequest(
+  pull_request: PullRequest,
+  reviews: Review[],
+  author: string | undefined
+): Promise<RerequestTargets> {
+  let review_teams = new Map<number, string[]>()
   try {
-    current_diff = await pull_request.compareCommits(
-      pull_request_payload.base.sha,
-      pull_request_payload.head.sha
+    review_teams = await pull_request.getReviewTeams(reviews)
+  } catch (error) {
+    core.warning(
+      `Unable to determine which teams the dismissed approvals were requested ` +
+        `through; only re-requesting the reviewers themselves: ${
+          error instanceof Error ? error.message : String(error)
+        }`
     )
-    current_diff = normalizeDiff(current_diff)
+  }
+  return selectRerequestTargets({reviews, review_teams, author})
+}
+
+// Re-request the reviews, recording in the result who they were re-requested from.
+// Users and teams are requested separately so that e.g. a team the token can't see
+// doesn't keep the reviewers from being notified.
+async function rerequestReviews(
+  pull_request: PullRequest,
+  {reviewers, team_reviewers}: RerequestTargets,
+  result: DismissalResult
+): Promise<void> {
+  if (reviewers.length > 0) {
+    try {
+      await pull_request.requestReviewers({reviewers, team_reviewers: []})
+      result.rerequested_reviewers = reviewers
+      core.info(`Re-requested reviews from ${reviewers.join(', ')}.`)
+    } catch (error) {
+      core.warning(
+        `Unable to re-request reviews from ${reviewers.join(', ')}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+  if (team_reviewers.length > 0) {
+    try {
+      await pull_request.requestReviewers({reviewers: [], team_reviewers})
+      result.rerequested_teams = team_reviewers
+      core.info(`Re-requested reviews from teams ${team_reviewers.join(', ')}.`)
+    } catch (error) {
+      core.warning(
+        `Unable to re-request reviews from teams ${team_reviewers.join(
+          ', '
+        )}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+}
+
+// Roles which may skip the dismissal check with the skip label. Anyone with write
+// access can label PRs, so the label alone isn't enough.
+const SKIP_LABEL_ROLES = ['admin', 'maintain']
+
+/**
+ * Whether the PR has the skip label, applied by a user whose role allows skipping the
+ * check.
+ */
+export async function hasSkipLabel(
+  pull_request: PullRequest,
+  labels: {name: string}[] | undefined,
+  skip_label: string
+): Promise<boolean> {
+  if (!labels?.some(label => label.name === skip_label)) {
+    return false
+  }
+  let labeler: string | null
+  let role: string | null = null
+  try {
+    labeler = await pull_request.getLabeler(skip_label)
+    if (labeler) {
+      role = await pull_request.getRole(labeler)
+    }
   } catch (error) {
     core.warning(
-      `Unable to get current three-dot diff: ${
-        error instanceof Error ? error.message : error
+      `Unable to verify who applied the ${skip_label} label; ignoring it: ${
+        error instanceof Error ? error.message : String(error)
       }`
     )
+    return false
   }
-  if (current_diff) {
-    const current_three_dot_diff_snippet = current_diff.slice(0, 5000)
+  if (!labeler || !role || !SKIP_LABEL_ROLES.includes(role)) {
+    core.warning(
+      `The ${skip_label} label was applied by ${labeler ?? 'an unknown user'}` +
+        `${role ? ` (${role})` : ''}, who may not skip the dismissal check; ` +
+        'ignoring it.'
+    )
+    return false
+  }
+  core.notice(
+    `Skipping the dismissal check: the ${skip_label} label was applied by ` +
+      `${labeler} (${role}).`
+  )
+  return true
+}
+
+export type NonOwnerApprovalPolicy = 'dismiss' | 'keep'
+
+interface ReviewDecision {
+  is_stale: boolean
+  method: DecisionMethod
+  // Why the review is or isn't stale; used as the dismissal message.
+  msg: string
+  // Files whose changes differ between the reviewed and current diff, or null if the
+  // diffs weren't compared (and the approval's metadata doesn't describe its files).
+  changed_files: string[] | null
+  // Files changed by the PR in either the reviewed or current diff, or null if the
+  // diffs weren't compared.
+  pr_files: string[] | null
+  // The hunks which changed between the reviewed and current diff, or null if the
+  // diffs weren't compared.
+  interdiff: FileInterdiff[] | null
+  range_diff_summary: string | null
+  // What range-diff found, or why it wasn't run, for reports.
+  range_diff_outcome: string
+  // The size of the interdiff, if measured for the small change policy.
+  change_size?: ChangeSize
+}
+
+/**
+ * Determine whether a single approval is stale.
+ *
+ * @returns whether the review is stale, how that was decided and why
+ */
+async function evaluateReview({
+  review,
+  snapshot,
+  pull_request,
+  current_diffs,
+  prepared_repo,
+  is_ignored,
+  diff_comparison,
+  ignore_whitespace,
+  current_merge_base,
+  current_head,
+  range_diff_fetch_depth,
+  diffs_dir,
+}: {
+  review: Review
+  snapshot: ReviewSnapshot
+  pull_request: PullRequest
+  current_diffs: CurrentDiff
+  prepared_repo: PreparedRepo
+  is_ignored: PathMatcher
+  diff_comparison: DiffComparison
+  ignore_whitespace: boolean
+  current_merge_base: string | null
+  current_head: string
+  range_diff_fetch_depth: number
+  diffs_dir: string
+}): Promise<ReviewDecision> {
+  if (snapshot.rejected) {
+    // Don't fall back to reconstructing the reviewed diff from the API: a snapshot
+    // which fails verification may have been planted to keep a stale approval.
+    core.warning(
+      `Untrusted approval snapshot for review ${review.id}: ${snapshot.rejected}. ` +
+        'Pessimistically dismissing the review.'
+    )
+    return {
+      is_stale: true,
+      method: 'pessimistic',
+      msg: `The approval snapshot failed verification: ${snapshot.rejected}. Pessimistically dismissing stale reviews.`,
+      changed_files: null,
+      pr_files: null,
+      interdiff: null,
+      range_diff_summary: null,
+      range_diff_outcome: 'not run: the approval snapshot failed verification',
+    }
+  }
+
+  // Try range-diff check first as a "fast pass" - if it shows no changes,
+  // we can exit early without doing the more expensive diff comparison.
+  const rangeDiffResult = await tryRangeDiffCheck({
+    metadata: snapshot.metadata,
+    is_ignored,
+    prepared_repo,
+    current_merge_base,
+    current_head,
+    range_diff_fetch_depth,
+  })
+
+  addRangeDiffSummary(rangeDiffResult.outcome, rangeDiffResult.commits)
+  const range_diff_summary = rangeDiffResult.range_diff?.summary ?? null
+  if (rangeDiffResult.decision === 'not_stale') {
+    core.notice(
+      `Range-diff shows no changes to commits since review ${review.id}. ` +
+        'Review is not stale.'
+    )
+    return {
+      is_stale: false,
+      method: 'range-diff',
+      msg: 'Range-diff shows no changes to commits since approval.',
+      changed_files: null,
+      pr_files: null,
+      interdiff: null,
+      range_diff_summary,
+      range_diff_outcome: rangeDiffResult.outcome,
+    }
+  }
+
+  // For 'stale' and 'fallback', continue to diff comparison.
+  // We don't short-circuit on 'stale' because range-diff operates per-commit:
+  // a commit could introduce a code change that a later commit reverts,
+  // making the net PR diff unchanged. Only full diff comparison can catch that.
+
+  // With version 2 metadata, the per-file patch hashes can show that the diff is
+  // unchanged without loading (and holding) the reviewed diff.
+  const approved_files = snapshot.metadata?.files
+  if (approved_files && diff_comparison === 'exact' && !ignore_whitespace) {
+    const three_dot = await current_diffs.getThreeDotDiff()
+    if (
+      three_dot !== null &&
+      changedApprovedFiles(approved_files, splitDiff(three_dot)).length === 0
+    ) {
+      core.notice(
+        `The file hashes of review ${review.id} match the current diff. ` +
+          'Review is not stale.'
+      )
+      return {
+        is_stale: false,
+        method: 'three-dot',
+        msg: 'The diff is unchanged since approval.',
+        changed_files: [],
+        pr_files: null,
+        interdiff: null,
+        range_diff_summary,
+        range_diff_outcome: rangeDiffResult.outcome,
+      }
+    }
+  }
+
+  let reviewed_diff = await genReviewedDiff(snapshot.diff, pull_request, review)
+  if (reviewed_diff) {
+    reviewed_diff = normalizeDiff(reviewed_diff)
+    addReviewDetail(
+      'Reviewed diff',
+      `${
+        snapshot.diff !== null ? 'cached' : 'reconstructed via the API'
+      }, ${describeDiffSize(reviewed_diff)}`
+    )
+    const reviewed_diff_snippet = reviewed_diff.slice(0, 5000)
     core.debug(
-      `current three dot diff (first 5000 characters):\n${current_three_dot_diff_snippet}`
+      `reviewed_diff for review ${review.id} (first 5000 characters):\n${reviewed_diff_snippet}`
     )
+    if (diffs_dir) {
+      fs.writeFileSync(`${diffs_dir}/reviewed-${review.id}.diff`, reviewed_diff)
+    }
+  } else {
+    addReviewDetail('Reviewed diff', 'unavailable')
   }
 
+  // Canonicalize both diffs according to the comparison mode and drop the ignored
+  // files from them before comparing them.
+  const comparable = (
+    diff: string | null,
+    without_whitespace = ignore_whitespace
+  ): FilteredDiff | null =>
+    comparableDiff(diff, {
+      diff_comparison,
+      ignore_whitespace: without_whitespace,
+      is_ignored,
+    })
+  const reviewed = comparable(reviewed_diff)
+  let current_diff = await current_diffs.getThreeDotDiff()
+  let current = comparable(current_diff)
+
   let msg = ''
-  if (current_diff && reviewed_diff && reviewed_diff !== current_diff) {
+  let method: DecisionMethod = 'three-dot'
+  if (current && reviewed && reviewed.diff !== current.diff) {
     // Consider the case of
     //
     //   main -> branch1 -> branch2
@@ -138,345 +818,897 @@ export async function dismissIfStale({
     // we compute the two dot diff here, then the review will be considered stale even
     // though the code changes on branch2 are still the same - this is an accepted
     // limitation.
-    if (!github.context.payload.repository) {
-      throw new Error(
-        'This action must be run on a pull request with repository made available in ' +
-          'the payload.'
-      )
-    }
-    const twoDot = genTwoDotDiff({
-      repository: github.context.payload.repository,
-      token,
-      repo_path,
-      base_sha: pull_request_payload.base.sha,
-      head_sha: pull_request_payload.head.sha,
-    })
-    if (twoDot !== null) {
-      current_diff = normalizeDiff(twoDot)
-      const current_two_dot_diff_snippet = current_diff.slice(0, 5000)
-      core.debug(
-        `current two dot diff (first 5000 characters):\n${current_two_dot_diff_snippet}`
-      )
+    // When this event is branch2 being retargeted to main because branch1 was merged
+    // (as with stacked PRs), the diff relative to branch1 as merged shows exactly the
+    // changes from branch2 regardless of what else landed, so it's used instead.
+    const stacked = await current_diffs.getStackedDiff()
+    const twoDot = stacked === null ? current_diffs.getTwoDotDiff() : null
+    if (stacked !== null) {
+      current_diff = stacked
+      current = comparable(stacked)
+      method = 'stacked'
+    } else if (twoDot !== null) {
+      current_diff = twoDot
+      current = comparable(twoDot)
+      method = 'two-dot'
     } else {
       msg =
         'Unable to compute two-dot diff (too large or failed). Pessimistically dismissing stale reviews.'
     }
   }
-  if (diffs_dir && current_diff) {
-    fs.writeFileSync(`${diffs_dir}/current.diff`, current_diff)
-  }
+
+  const ignored_changes =
+    reviewed && current ? changedFiles(reviewed.ignored, current.ignored) : []
 
   // If the diffs are different, unable to generate the current diff, or we weren't able
   // to get the reviewed diff, then the review is (pessimistically) considered stale.
-  if (reviewed_diff !== current_diff) {
-    if (!current_diff) {
-      msg =
-        'Unable to get the current diff. ' +
-        'Pessimistically dismissing stale reviews.'
-    } else if (!reviewed_diff) {
-      msg =
-        'Unable to get the most recently reviewed diff. ' +
-        'Pessimistically dismissing stale reviews.'
-    } else if (msg === '') {
-      msg = 'Code has changed, dismissing stale reviews.'
+  if (reviewed?.diff === current?.diff) {
+    let not_stale_msg = 'The diff is unchanged since approval.'
+    if (ignored_changes.length > 0) {
+      not_stale_msg = `Only ignored files changed since approval: ${ignored_changes.join(
+        ', '
+      )}.`
+      core.notice(
+        `Only ignored files changed since review ${review.id}: ` +
+          `${ignored_changes.join(', ')}. Review is not stale.`
+      )
+    }
+    // Whitespace changes can only be told apart if both diffs kept them: the reviewed
+    // and three-dot diffs come from the API, while the diffs computed with git
+    // already leave whitespace changes out.
+    if (
+      ignore_whitespace &&
+      method === 'three-dot' &&
+      reviewed &&
+      current &&
+      comparable(reviewed_diff, false)?.diff !==
+        comparable(current_diff, false)?.diff
+    ) {
+      not_stale_msg = 'Changes since approval are whitespace-only.'
+      core.notice(
+        `Changes since review ${review.id} are whitespace-only. Review is not stale.`
+      )
     }
-    core.notice(msg)
-    await pull_request.dismissApprovals(msg)
+    return {
+      is_stale: false,
+      method,
+      msg: not_stale_msg,
+      changed_files: [],
+      pr_files: null,
+      interdiff: null,
+      range_diff_summary,
+      range_diff_outcome: rangeDiffResult.outcome,
+    }
+  }
+  let compared = false
+  if (!current) {
+    msg =
+      'Unable to get the current diff. ' +
+      'Pessimistically dismissing stale reviews.'
+  } else if (!reviewed) {
+    msg =
+      'Unable to get the reviewed diff. ' +
+      'Pessimistically dismissing stale reviews.'
+  } else if (msg === '') {
+    msg = 'Code has changed, dismissing stale reviews.'
+    compared = true
+  }
+  if (ignored_changes.length > 0) {
+    msg += ` Ignored files which also changed: ${ignored_changes.join(', ')}.`
+  }
+
+  // The changed files are only meaningful if the diffs were actually compared (and
+  // not, say, the reviewed diff against a three-dot diff when the two-dot diff could
+  // not be computed).
+  if (!compared || !current || !reviewed) {
+    // Without the diffs to compare (e.g. the three-dot diff is too large), version 2
+    // metadata still allows listing the files whose contents changed. The approved
+    // files describe the three-dot diff at approval, so they're compared with the
+    // files of the current three-dot diff.
+    let changed_files: string[] | null = null
+    if (approved_files && current_merge_base !== null) {
+      const blobs = current_diffs.getThreeDotBlobs(current_merge_base)
+      if (blobs !== null) {
+        changed_files = changedApprovedBlobs(
+          approved_files.filter(file => !is_ignored(file.path)),
+          blobs.filter(blob => !is_ignored(blob.path))
+        )
+      }
+    }
+    return {
+      is_stale: true,
+      method: 'pessimistic',
+      msg,
+      changed_files,
+      pr_files: null,
+      interdiff: null,
+      range_diff_summary,
+      range_diff_outcome: rangeDiffResult.outcome,
+    }
+  }
+  const pr_files = new Set<string>()
+  for (const file of [...reviewed.files, ...current.files]) {
+    pr_files.add(file.path)
+  }
+  return {
+    is_stale: true,
+    method,
+    msg,
+    changed_files: changedFiles(reviewed.files, current.files),
+    pr_files: [...pr_files],
+    interdiff: computeInterdiff(reviewed.files, current.files),
+    range_diff_summary,
+    range_diff_outcome: rangeDiffResult.outcome,
   }
 }
 
-type RangeDiffCheckResult = 'not_stale' | 'fallback'
+/**
+ * Lazily computes (at most once per run) the current diff of the PR, shared across
+ * the evaluation of each approval.
+ */
+class CurrentDiff {
+  private three_dot?: Promise<string | null>
+  private two_dot?: string | null
+  private stacked?: Promise<string | null>
+
+  constructor(
+    private readonly params: {
+      pull_request: PullRequest
+      prepared_repo: PreparedRepo
+      base_sha: string
+      head_sha: string
+      // The merged parent PR, if the PR was retargeted after it merged.
+      stack_parent: MergedPullRequest | null
+      diffs_dir: string
+      ignore_whitespace: boolean
+    }
+  ) {}
+
+  async getThreeDotDiff(): Promise<string | null> {
+    if (this.three_dot === undefined) {
+      this.three_dot = this.computeThreeDotDiff()
+    }
+    return this.three_dot
+  }
+
+  getTwoDotDiff(): string | null {
+    if (this.two_dot === undefined) {
+      this.two_dot = this.computeTwoDotDiff()
+    }
+    return this.two_dot
+  }
+
+  // The PR's diff relative to its merged parent PR, or null if there is no parent or
+  // the diff couldn't be computed.
+  async getStackedDiff(): Promise<string | null> {
+    if (this.stacked === undefined) {
+      this.stacked = this.computeStackedDiff()
+    }
+    return this.stacked
+  }
+
+  // The current diffs which were computed, by description, e.g. for the job summary.
+  async getComputedDiffs(): Promise<[string, string | null][]> {
+    const diffs: [string, string | null][] = []
+    if (this.three_dot !== undefined) {
+      diffs.push(['Three-dot (GitHub API)', await this.three_dot])
+    }
+    if (this.two_dot !== undefined) {
+      diffs.push(['Two-dot', this.two_dot])
+    }
+    if (this.stacked !== undefined && this.params.stack_parent) {
+      diffs.push([
+        `Relative to #${this.params.stack_parent.pull_number}`,
+        await this.stacked,
+      ])
+    }
+    return diffs
+  }
+
+  // List the files of the three-dot diff with their blob SHAs, e.g. when the diff
+  // itself is too large or couldn't be computed.
+  getThreeDotBlobs(merge_base: string): ChangedBlob[] | null {
+    const {prepared_repo, head_sha} = this.params
+    try {
+      return gitChangedBlobs({
+        repo_path: prepared_repo.repo_path,
+        base: merge_base,
+        head: head_sha,
+        env: prepared_repo.prepare([merge_base, head_sha]),
+      })
+    } catch (error) {
+      core.warning(
+        `Unable to list the files of the current diff: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return null
+    }
+  }
+
+  private async computeThreeDotDiff(): Promise<string | null> {
+    const {pull_request, base_sha, head_sha, diffs_dir} = this.params
+    let current_diff: string | null = null
+    try {
+      current_diff = normalizeDiff(
+        await pull_request.compareCommits(base_sha, head_sha)
+      )
+    } catch (error) {
+      core.warning(
+        `Unable to get current three-dot diff: ${
+          error instanceof Error ? error.message : error
+        }`
+      )
+      return null
+    }
+    const current_three_dot_diff_snippet = current_diff.slice(0, 5000)
+    core.debug(
+      `current three dot diff (first 5000 characters):\n${current_three_dot_diff_snippet}`
+    )
+    if (diffs_dir) {
+      fs.writeFileSync(`${diffs_dir}/current.diff`, current_diff)
+    }
+    return current_diff
+  }
+
+  private computeTwoDotDiff(): string | null {
+    const {prepared_repo, base_sha, head_sha, diffs_dir, ignore_whitespace} =
+      this.params
+    // GitHub API doesn't support generating two-dot diffs (diffs between files in two
+    // commits), so we do it ourselves by fetching the base and head commits and
+    // generating the diff using git diff.
+    const env = prepared_repo.prepare([base_sha, head_sha])
+    const twoDot = timed('Two-dot diff', () =>
+      gitDiff({
+        repo_path: prepared_repo.repo_path,
+        base: base_sha,
+        head: head_sha,
+        env,
+        ignore_whitespace,
+      })
+    )
+    if (twoDot === null) {
+      return null
+    }
+    const current_diff = normalizeDiff(twoDot)
+    const current_two_dot_diff_snippet = current_diff.slice(0, 5000)
+    core.debug(
+      `current two dot diff (first 5000 characters):\n${current_two_dot_diff_snippet}`
+    )
+    if (diffs_dir) {
+      fs.writeFileSync(`${diffs_dir}/current-two-dot.diff`, current_diff)
+    }
+    return current_diff
+  }
+
+  private async computeStackedDiff(): Promise<string | null> {
+    const {
+      pull_request,
+      prepared_repo,
+      head_sha,
+      stack_parent,
+      diffs_dir,
+      ignore_whitespace,
+    } = this.params
+    if (!stack_parent) {
+      return null
+    }
+    let stacked: string | null
+    try {
+      const merge_base = await pull_request.getMergeBase(
+        stack_parent.head_sha,
+        head_sha
+      )
+      if (merge_base === stack_parent.head_sha) {
+        // The PR is still based on the parent's final head, so the diff relative to
+        // it is exactly the PR's own changes.
+        stacked = await pull_request.compareCommits(
+          stack_parent.head_sha,
+          head_sha
+        )
+      } else {
+        // Otherwise (e.g. the parent changed after the PR was last rebased on it),
+        // diff against the parent's changes as they were merged.
+        const env = prepared_repo.prepare([
+          stack_parent.merge_commit_sha,
+          head_sha,
+        ])
+        stacked = timed('Stacked diff', () =>
+          gitDiff({
+            repo_path: prepared_repo.repo_path,
+            base: stack_parent.merge_commit_sha,
+            head: head_sha,
+            env,
+            ignore_whitespace,
+          })
+        )
+      }
+    } catch (error) {
+      core.warning(
+        `Unable to get the diff relative to #${stack_parent.pull_number}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return null
+    }
+    if (stacked === null) {
+      return null
+    }
+    const current_diff = normalizeDiff(stacked)
+    const current_stacked_diff_snippet = current_diff.slice(0, 5000)
+    core.debug(
+      `current stacked diff (first 5000 characters):\n${current_stacked_diff_snippet}`
+    )
+    if (diffs_dir) {
+      fs.writeFileSync(`${diffs_dir}/current-stacked.diff`, current_diff)
+    }
+    return current_diff
+  }
+}
+
+export function workflowRunUrl(): string {
+  const {serverUrl, runId, repo} = github.context
+  return `${serverUrl}/${repo.owner}/${repo.repo}/actions/runs/${runId}`
+}
+
+async function loadCodeowners(
+  pull_request: PullRequest,
+  base_ref: string
+): Promise<Codeowners | null> {
+  // Read CODEOWNERS from the base branch, which is the version GitHub uses to
+  // request reviews.
+  for (const path of CODEOWNERS_PATHS) {
+    let contents: string | null
+    try {
+      contents = await pull_request.getFileContent(path, base_ref)
+    } catch (error) {
+      core.warning(
+        `Unable to read ${path} from ${base_ref}; dismissing stale approvals regardless of ownership: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return null
+    }
+    if (contents !== null) {
+      core.debug(`Using code owners from ${path} on ${base_ref}.`)
+      return new Codeowners(parseCodeowners(contents), async (org, team_slug) =>
+        pull_request.getTeamMembers(org, team_slug)
+      )
+    }
+  }
+  core.warning(
+    `No CODEOWNERS file found on ${base_ref}; dismissing stale approvals regardless of ownership.`
+  )
+  return null
+}
 
 /**
- * Try to determine staleness using git range-diff.
+ * Keep a stale approval if the changes since approval are within the small change
+ * policy or, with codeowners_aware, if the reviewer doesn't own what changed.
  *
- * Range-diff compares two commit ranges and identifies if commits were modified,
- * added, or removed. This is more accurate than diff comparison for rebases
- * that don't change the actual code.
+ * @returns the decision, with is_stale false if the approval is kept
+ */
+async function applyKeepPolicies({
+  review,
+  decision,
+  small_change,
+  codeowners,
+  non_owner_approvals,
+}: {
+  review: Review
+  decision: ReviewDecision
+  small_change: SmallChangePolicy
+  codeowners: Codeowners | null
+  non_owner_approvals: NonOwnerApprovalPolicy
+}): Promise<ReviewDecision> {
+  if (!decision.is_stale) {
+    return decision
+  }
+  if (small_change.max_lines > 0 && decision.interdiff) {
+    const {size, exceeded} = evaluateSmallChange(
+      decision.interdiff,
+      small_change
+    )
+    if (exceeded === null) {
+      const keep_reason =
+        `Keeping review ${review.id} by ${review.user?.login}: the changes since ` +
+        `approval (${describeChangeSize(
+          size
+        )}) are within the small change policy.`
+      core.notice(keep_reason)
+      return {...decision, is_stale: false, msg: keep_reason, change_size: size}
+    }
+    decision = {
+      ...decision,
+      msg: `${decision.msg} Changes since approval: ${describeChangeSize(
+        size
+      )}, above the small change policy (${exceeded}).`,
+      change_size: size,
+    }
+  }
+  if (codeowners) {
+    const keep_reason = await ownershipKeepReason({
+      codeowners,
+      review,
+      decision,
+      non_owner_approvals,
+    })
+    if (keep_reason !== null) {
+      core.notice(keep_reason)
+      return {...decision, is_stale: false, msg: keep_reason}
+    }
+  }
+  return decision
+}
+
+/**
+ * Determine whether a stale review should be kept given the ownership of the files
+ * which changed since it was submitted.
  *
- * @returns 'not_stale' if range-diff confirms no changes,
- *          'fallback' if range-diff detected changes or couldn't be run
+ * @returns why the review is kept, or null if it should be dismissed
  */
-async function tryRangeDiffCheck({
-  path_to_cached_metadata,
+async function ownershipKeepReason({
+  codeowners,
+  review,
+  decision,
+  non_owner_approvals,
+}: {
+  codeowners: Codeowners
+  review: Review
+  decision: ReviewDecision
+  non_owner_approvals: NonOwnerApprovalPolicy
+}): Promise<string | null> {
+  const login = review.user?.login
+  if (!login || decision.changed_files === null || decision.pr_files === null) {
+    // We don't know what changed, so pessimistically dismiss.
+    return null
+  }
+  if (await codeowners.ownsAny(login, decision.changed_files)) {
+    return null
+  }
+  if (await codeowners.ownsAny(login, decision.pr_files)) {
+    return (
+      `Keeping review ${review.id} by ${login}: none of the changed files ` +
+      `(${decision.changed_files.join(', ')}) are owned by ${login}.`
+    )
+  }
+  if (non_owner_approvals === 'keep') {
+    return (
+      `Keeping review ${review.id} by ${login}: ${login} doesn't own any files ` +
+      'in the pull request.'
+    )
+  }
+  return null
+}
+
+async function loadIgnoreMatcher({
   pull_request,
-  repo_path,
-  token,
-  current_head,
+  ignore_paths,
+  ignore_linguist_generated,
   base_ref,
-  range_diff_fetch_depth,
 }: {
-  path_to_cached_metadata: string
   pull_request: PullRequest
-  repo_path: string
-  token: string
-  current_head: string
+  ignore_paths: string[]
+  ignore_linguist_generated: boolean
   base_ref: string
-  range_diff_fetch_depth: number
-}): Promise<RangeDiffCheckResult> {
-  // Load cached metadata
-  core.debug(`Checking for cached metadata at ${path_to_cached_metadata}.`)
-  if (!path_to_cached_metadata || !fs.existsSync(path_to_cached_metadata)) {
-    core.debug('No cached metadata found, falling back to diff comparison.')
-    return 'fallback'
+}): Promise<PathMatcher> {
+  let gitattributes: string | null = null
+  if (ignore_linguist_generated) {
+    // Read .gitattributes from the base branch so that the PR itself can't mark
+    // files as generated to avoid having its changes compared.
+    try {
+      gitattributes = await pull_request.getFileContent(
+        '.gitattributes',
+        base_ref
+      )
+    } catch (error) {
+      core.warning(
+        `Unable to read .gitattributes from ${base_ref}, not ignoring generated files: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+  return buildIgnoreMatcher({ignore_paths, gitattributes})
+}
+
+export interface ReviewSnapshot {
+  metadata: ApprovalMetadata | null
+  diff: string | null
+  // Why the snapshot failed verification, or null if it didn't.
+  rejected: string | null
+}
+
+// Describe where a review's snapshot came from, e.g. for the job summary.
+function describeSnapshot(snapshot: ReviewSnapshot): string {
+  if (snapshot.rejected) {
+    return `rejected: ${snapshot.rejected}`
+  }
+  if (snapshot.diff !== null) {
+    return snapshot.metadata ? 'cached diff and metadata' : 'cached diff'
   }
+  return snapshot.metadata
+    ? 'cached metadata; diff reconstructed via the API if needed'
+    : 'none; diff reconstructed via the API if needed'
+}
+
+const NO_SNAPSHOT: ReviewSnapshot = {metadata: null, diff: null, rejected: null}
 
-  let metadata: ApprovalMetadata
+/**
+ * Load the snapshot (if any) of a review from the snapshot store.
+ *
+ * If the store keeps a separate snapshot per review, the review's own snapshot is
+ * used. Otherwise a single snapshot was restored, and the metadata's review_id
+ * determines which review it belongs to; a legacy snapshot without metadata is
+ * assumed to belong to the most recent approval (which is the one
+ * check-for-approvals reports).
+ *
+ * With a signing key, a snapshot is only trusted if it is signed with the key and
+ * bound to the review; otherwise it is rejected.
+ */
+export async function loadSnapshot({
+  review,
+  is_latest,
+  snapshot_store,
+  snapshot_signing_key,
+}: {
+  review: Review
+  is_latest: boolean
+  snapshot_store: SnapshotStore
+  snapshot_signing_key: string
+}): Promise<ReviewSnapshot> {
+  let snapshot: Snapshot
   try {
-    const rawMetadata = fs.readFileSync(path_to_cached_metadata, {
-      encoding: 'utf8',
-    })
-    metadata = JSON.parse(rawMetadata) as ApprovalMetadata
-    core.debug(`Loaded approval metadata: ${JSON.stringify(metadata)}`)
+    snapshot = await snapshot_store.load(review.id)
   } catch (error) {
     core.warning(
-      `Failed to parse cached metadata: ${
+      `Unable to load the snapshot of review ${
+        review.id
+      }, falling back to the API: ${
         error instanceof Error ? error.message : String(error)
       }`
     )
-    return 'fallback'
+    return NO_SNAPSHOT
   }
-
-  // Validate metadata version and required fields
-  if (metadata.version !== 1) {
-    core.warning(
-      `Unsupported metadata version: ${metadata.version}, falling back to diff comparison.`
+  const metadata = parseSnapshotMetadata(snapshot.metadata)
+  if (metadata && metadata.review_id !== review.id) {
+    if (snapshot_store.per_review) {
+      return {
+        ...NO_SNAPSHOT,
+        rejected: `it is for review ${metadata.review_id}`,
+      }
+    }
+    core.debug(
+      `Snapshot metadata is for review ${metadata.review_id}, ` +
+        `not review ${review.id}; ignoring it.`
     )
-    return 'fallback'
+    return NO_SNAPSHOT
+  }
+  if (!metadata && !snapshot_store.per_review && !is_latest) {
+    return NO_SNAPSHOT
   }
 
-  if (!metadata.approved_sha || !metadata.merge_base_sha) {
+  if (snapshot_signing_key) {
+    if (!metadata) {
+      return snapshot.metadata === null && snapshot.diff === null
+        ? NO_SNAPSHOT
+        : {...NO_SNAPSHOT, rejected: 'it has no valid metadata'}
+    }
+    if (!metadata.signature) {
+      return {...NO_SNAPSHOT, rejected: 'it is not signed'}
+    }
+    if (
+      snapshot.diff === null ||
+      !verifySnapshot({
+        metadata,
+        diff: snapshot.diff,
+        key: snapshot_signing_key,
+      })
+    ) {
+      return {
+        ...NO_SNAPSHOT,
+        rejected: "its signature doesn't match",
+      }
+    }
+  }
+  return {metadata, diff: snapshot.diff, rejected: null}
+}
+
+function parseSnapshotMetadata(raw: string | null): ApprovalMetadata | null {
+  if (raw === null) {
+    core.debug('No cached metadata found.')
+    return null
+  }
+
+  try {
+    const metadata = parseApprovalMetadata(raw)
+    core.debug(`Loaded approval metadata: ${JSON.stringify(metadata)}`)
+    return metadata
+  } catch (error) {
     core.warning(
-      'Metadata missing required fields (approved_sha or merge_base_sha), falling back.'
+      `Invalid cached metadata, falling back to diff comparison: ${
+        error instanceof Error ? error.message : String(error)
+      }`
     )
-    return 'fallback'
+    return null
+  }
+}
+
+interface RangeDiffCheckResult {
+  decision: 'not_stale' | 'fallback'
+  // The parsed range-diff output, or null if range-diff couldn't be run.
+  range_diff: RangeDiffResult | null
+  // What range-diff found, or why it couldn't be run.
+  outcome: string
+  // The commit pairs range-diff compared.
+  commits: RangeDiffCommit[]
+}
+
+function rangeDiffUnavailable(reason: string): RangeDiffCheckResult {
+  return {
+    decision: 'fallback',
+    range_diff: null,
+    outcome: `not run: ${reason}`,
+    commits: [],
   }
+}
 
-  // Get current merge base
-  let currentMergeBase: string
+/**
+ * Plan the commits to fetch: those range-diff needs for each approval with metadata,
+ * and the base and head of the PR for the two-dot diff.
+ *
+ * @returns the current merge base for range-diff, or null if it couldn't be
+ *   determined
+ */
+async function planFetch({
+  prepared_repo,
+  pull_request,
+  snapshots,
+  base_ref,
+  base_sha,
+  current_head,
+  range_diff_fetch_depth,
+}: {
+  prepared_repo: PreparedRepo
+  pull_request: PullRequest
+  snapshots: ReviewSnapshot[]
+  base_ref: string
+  base_sha: string
+  current_head: string
+  range_diff_fetch_depth: number
+}): Promise<string | null> {
+  const with_metadata = snapshots.filter(
+    snapshot => snapshot.metadata && !snapshot.rejected
+  )
+  if (with_metadata.length === 0) {
+    return null
+  }
+  let current_merge_base: string
   try {
-    currentMergeBase = await pull_request.getMergeBase(base_ref, current_head)
-    core.debug(`Current merge base: ${currentMergeBase}`)
+    current_merge_base = await pull_request.getMergeBase(base_ref, current_head)
+    core.debug(`Current merge base: ${current_merge_base}`)
   } catch (error) {
     core.warning(
       `Failed to get current merge base: ${
         error instanceof Error ? error.message : String(error)
       }`
     )
-    return 'fallback'
+    return null
   }
+  const shas = [base_sha, current_merge_base, current_head]
+  for (const {metadata} of with_metadata) {
+    if (metadata) {
+      shas.push(metadata.merge_base_sha, metadata.approved_sha)
+    }
+  }
+  prepared_repo.plan([...new Set(shas)], range_diff_fetch_depth)
+  return current_merge_base
+}
 
-  // Ensure repo is available and fetch the SHAs needed for range-diff.
-  // Unlike the two-dot diff fetch (which uses --depth=1), we fetch with a
-  // configurable depth because range-diff needs to walk the commit ranges.
-  const repository = github.context.payload.repository
-  if (!repository) {
-    core.debug('No repository in payload, falling back to diff comparison.')
-    return 'fallback'
+/**
+ * Try to determine staleness using git range-diff.
+ *
+ * Range-diff compares two commit ranges and identifies if commits were modified,
+ * added, or removed. This is more accurate than diff comparison for rebases
+ * that don't change the actual code.
+ *
+ * @returns decision 'not_stale' if range-diff confirms no changes,
+ *          'fallback' if range-diff detected changes or couldn't be run
+ */
+async function tryRangeDiffCheck({
+  metadata,
+  is_ignored,
+  prepared_repo,
+  current_merge_base,
+  current_head,
+  range_diff_fetch_depth,
+}: {
+  metadata: ApprovalMetadata | null
+  is_ignored: PathMatcher
+  prepared_repo: PreparedRepo
+  current_merge_base: string | null
+  current_head: string
+  range_diff_fetch_depth: number
+}): Promise<RangeDiffCheckResult> {
+  if (!metadata) {
+    core.debug('No cached metadata found, falling back to diff comparison.')
+    return rangeDiffUnavailable('no approval metadata')
+  }
+  if (current_merge_base === null) {
+    core.debug('No current merge base, falling back to diff comparison.')
+    return rangeDiffUnavailable('the current merge base is unknown')
   }
 
+  // Fetch the SHAs needed for range-diff (along with the other planned commits).
+  // Unlike the two-dot diff (which only needs --depth=1), range-diff needs to walk
+  // the commit ranges, so we fetch with a configurable depth.
   try {
-    const env = ensureRepo({repo_path, token, repository})
-    const shas = [
-      metadata.merge_base_sha,
-      metadata.approved_sha,
-      currentMergeBase,
-      current_head,
-    ]
-    const depthFlag =
-      range_diff_fetch_depth > 0 ? `--depth=${range_diff_fetch_depth}` : ''
-    core.debug(
-      `Fetching SHAs for range-diff: ${shas.join(', ')}${
-        depthFlag ? ` (depth=${range_diff_fetch_depth})` : ' (unlimited depth)'
-      }`
+    prepared_repo.prepare(
+      [
+        metadata.merge_base_sha,
+        metadata.approved_sha,
+        current_merge_base,
+        current_head,
+      ],
+      range_diff_fetch_depth
     )
-    execSync(`git fetch ${depthFlag} origin ${shas.join(' ')}`.trim(), {
-      env,
-      cwd: repo_path,
-      stdio: 'ignore',
-    })
   } catch (error) {
     core.warning(
       `Failed to set up repo for range-diff: ${
         error instanceof Error ? error.message : String(error)
       }`
     )
-    return 'fallback'
+    return rangeDiffUnavailable('unable to fetch the commits')
+  }
+
+  // With a shallow fetch, the ranges may be cut off, in which case range-diff would
+  // only compare the most recent commits of each range.
+  if (range_diff_fetch_depth > 0) {
+    let deepened: DeepenResult
+    try {
+      deepened = prepared_repo.deepenUntilConnected(
+        [
+          {base: metadata.merge_base_sha, tip: metadata.approved_sha},
+          {base: current_merge_base, tip: current_head},
+        ],
+        range_diff_fetch_depth
+      )
+    } catch (error) {
+      core.warning(
+        `Failed to deepen the history for range-diff: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return rangeDiffUnavailable('unable to deepen the history')
+    }
+    if (!deepened.connected) {
+      const reason =
+        deepened.reason === 'max-depth'
+          ? 'the commit ranges are deeper than range_diff_max_fetch_depth'
+          : "a merge base isn't an ancestor of its head in the full history"
+      core.warning(
+        `Skipping range-diff: ${reason}; falling back to diff comparison.`
+      )
+      return rangeDiffUnavailable(reason)
+    }
+    if (deepened.depth > range_diff_fetch_depth) {
+      core.notice(
+        `Deepened the history to ${deepened.depth} commits to cover the commit ` +
+          `ranges (range_diff_fetch_depth is ${range_diff_fetch_depth}).`
+      )
+    }
   }
 
   // Run git range-diff
-  const rangeDiffOutput = runRangeDiff({
-    repoPath: repo_path,
-    prevMergeBase: metadata.merge_base_sha,
-    approvedSha: metadata.approved_sha,
-    currMergeBase: currentMergeBase,
-    currentHead: current_head,
-  })
+  const rangeDiffOutput = timed('Range-diff', () =>
+    runRangeDiff({
+      repoPath: prepared_repo.repo_path,
+      prevMergeBase: metadata.merge_base_sha,
+      approvedSha: metadata.approved_sha,
+      currMergeBase: current_merge_base,
+      currentHead: current_head,
+    })
+  )
 
   if (rangeDiffOutput === null) {
     core.debug('Range-diff failed, falling back to diff comparison.')
-    return 'fallback'
+    return rangeDiffUnavailable('git range-diff failed')
   }
 
-  const result = parseRangeDiffOutput(rangeDiffOutput)
+  const result = parseRangeDiffOutput(rangeDiffOutput, is_ignored)
+  const commits = parseRangeDiffCommits(rangeDiffOutput, is_ignored)
   core.debug(`Range-diff result: ${JSON.stringify(result)}`)
 
   switch (result.status) {
     case 'not_stale':
       core.info(`Range-diff shows no code changes: ${result.summary}`)
-      return 'not_stale'
+      return {
+        decision: 'not_stale',
+        range_diff: result,
+        outcome: `no code changes (${result.summary})`,
+        commits,
+      }
     case 'stale':
       core.info(
         `Range-diff detected code changes: ${result.summary}. Falling back to diff comparison to verify.`
       )
-      return 'fallback'
+      return {
+        decision: 'fallback',
+        range_diff: result,
+        outcome: `code changes (${result.summary}), verified by diff comparison`,
+        commits,
+      }
     case 'unknown':
       core.info(`Range-diff inconclusive: ${result.summary}`)
-      return 'fallback'
+      return {
+        decision: 'fallback',
+        range_diff: result,
+        outcome: `inconclusive (${result.summary})`,
+        commits,
+      }
   }
 }
 
-async function genReviewedDiff(
-  path_to_cached_diff: string,
-  pull_request: PullRequest
+export async function genReviewedDiff(
+  cached_diff: string | null,
+  pull_request: PullRequest,
+  review: Review
 ): Promise<string | null> {
-  // check if the cached diff exists
-  core.debug(`Checking for cached diff at ${path_to_cached_diff}.`)
-  if (fs.existsSync(path_to_cached_diff)) {
-    core.notice('Using cached diff of most recent approval.')
-    return fs.readFileSync(path_to_cached_diff, {encoding: 'utf8'})
+  if (cached_diff !== null) {
+    core.notice(`Using cached diff of review ${review.id}.`)
+    return cached_diff
   }
-  return await pull_request.getMostRecentlyReviewedDiff()
-}
-
-function normalizeDiff(diff: string): string {
-  // Normalize the diff by dropping the file hash metadata[1]
-  // because we are only concerned with the changes in the file contents which the
-  // reviewer would have seen.
-  //
-  // [1] https://www.git-tower.com/learn/git/ebook/en/command-line/advanced-topics/diffs
-  //     Basically, these are the "index <sha1>..<sha2>" lines in the diff output.
-  //     Note that these lines may be terminated by an optional " <mode>" suffix.
-  return diff.replace(/^index [0-9a-f]+\.\.[0-9a-f]+/gm, '')
+  return await pull_request.getReviewedDiff(review)
 }
 
 /**
- * Ensure a git repository exists at the given path, cloning if necessary.
- * Uses gh for authentication. Returns the env to use for subsequent git commands.
+ * Find the stack parent of the PR: when the event is the PR being retargeted because
+ * its previous base branch was merged (e.g. the parent of a stack of PRs, after which
+ * the child is retargeted to the parent's base), the PR which merged it.
+ *
+ * @returns the merged PR, or null if the event isn't such a retarget
  */
-function ensureRepo({
-  repo_path,
-  token,
-  repository,
-}: {
-  repo_path: string
-  token: string
-  repository: PayloadRepository
-}): typeof process.env {
-  const env: typeof process.env = {...process.env, GITHUB_TOKEN: token}
-  if (!fs.existsSync(repo_path)) {
-    core.debug(`Cloning ${repository.full_name} to ${repo_path}.`)
-    fs.mkdirSync(repo_path, {recursive: true})
-    execSync(
-      `gh repo clone ${repository.full_name} ${repo_path} -- --depth=1`,
-      {
-        env,
-        stdio: 'ignore',
-      }
-    )
-    core.debug('Configuring git to use gh as a credential helper.')
-    execSync('gh auth setup-git', {
-      env,
-      cwd: repo_path,
-    })
+export async function findStackParent(
+  pull_request: PullRequest,
+  {action, changes, pull_request: pull_request_payload}: WebhookPayload
+): Promise<MergedPullRequest | null> {
+  const previous_ref: string | undefined = changes?.base?.ref?.from
+  const base_ref: string | undefined = pull_request_payload?.base.ref
+  if (
+    action !== 'edited' ||
+    !previous_ref ||
+    !base_ref ||
+    previous_ref === base_ref
+  ) {
+    return null
   }
-  return env
-}
-
-function genTwoDotDiff({
-  repository,
-  token,
-  repo_path,
-  base_sha,
-  head_sha,
-}: {
-  repository: PayloadRepository
-  token: string
-  repo_path: string
-  base_sha: string
-  head_sha: string
-}): string | null {
-  // GitHub API doesn't support generating two-dot diffs (diffs between files in two
-  // commits), so we do it ourselves by
-  // 1. clone the repo if needed
-  // 2. fetch the base and head commits
-  // 3. generate the diff using git diff
-
-  const env = ensureRepo({repo_path, token, repository})
-
-  // fetch the base and head commits
-  core.debug(`Fetching ${base_sha} and ${head_sha}.`)
-  execSync(`git fetch --depth=1 origin ${base_sha} ${head_sha}`, {
-    env,
-    cwd: repo_path,
-  })
-
-  // generate the diff
-  core.debug(`Generating diff between ${base_sha} and ${head_sha}.`)
-  // Use spawn instead of exec here because we want to get the (potentially large)
-  // output of the diff command as a string.
-  // Refer to
-  // https://www.hacksparrow.com/nodejs/difference-between-spawn-and-exec-of-node-js-child-rocess.html
-  // for more details on using exec vs spawn.
-  const diffResult = spawnSync(
-    'git',
-    [
-      '-c',
-      'core.pager=cat',
-      'diff',
-      '--no-ext-diff',
-      '--no-color',
-      base_sha,
-      head_sha,
-    ],
-    {
-      env: {
-        ...env,
-        GIT_PAGER: 'cat',
-      },
-      cwd: repo_path,
-      encoding: 'utf8',
-      // Keep a reasonable buffer; if exceeded we'll return null and pessimistically dismiss
-      maxBuffer: 32 * 1024 * 1024,
-    }
-  )
-
-  if (diffResult.error) {
-    const err = diffResult.error as Error & {code?: string}
-    const codeInfo = err?.code ? ` code=${err.code}` : ''
-    if (err?.code === 'ENOBUFS') {
-      core.warning(
-        `git diff output exceeded buffer (${repo_path}). Returning null to allow pessimistic dismissal.${codeInfo}`
-      )
-      return null
-    }
-    core.error(
-      `Failed to spawn git diff in ${repo_path}: ${String(
-        err?.message || err
-      )}${codeInfo}`
+  let parent: MergedPullRequest | null
+  try {
+    parent = await pull_request.getMergedPullRequest(previous_ref, base_ref)
+  } catch (error) {
+    core.warning(
+      `Unable to determine whether ${previous_ref} was merged into ${base_ref}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
     )
     return null
   }
-
-  // git diff returns 0 (no changes) or 1 (changes found). >1 indicates an error.
-  if (typeof diffResult.status === 'number' && diffResult.status > 1) {
-    const stderr = (diffResult.stderr || '').toString()
-    core.error(
-      `git diff exited with code ${diffResult.status} (cwd=${repo_path}). stderr:\n${stderr}`
+  if (parent) {
+    core.notice(
+      `The previous base branch ${previous_ref} was merged into ${base_ref} by ` +
+        `#${parent.pull_number}; evaluating the changes relative to it.`
     )
-    return null
   }
+  return parent
+}
 
-  // With encoding set, stdout is guaranteed to be a string.
-  return diffResult.stdout || ''
+// Commits of a PR from a fork can't be fetched from the repository's branches, so
+// its head is fetched through the PR's ref instead.
+function pullHead(
+  pull_request: PullRequest,
+  head_sha: string
+): {pull_number: number; sha: string} | null {
+  return pull_request.is_fork
+    ? {pull_number: pull_request.pull_number, sha: head_sha}
+    : null
 }
@@ -0,0 +1,338 @@
+// Module for running git commands against a local repository.
+
+import fs from 'fs'
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import {PayloadRepository} from '@actions/github/lib/interfaces'
+import {execFileSync, execSync, spawnSync} from 'child_process'
+
+/**
+ * Ensure a git repository exists at the given path, creating it if necessary with the
+ * repository on the GitHub server the workflow runs on (e.g. GitHub Enterprise
+ * Server) as its origin remote. Returns the env to use for subsequent git commands.
+ *
+ * The token is configured as an http.extraheader for the server in the repository's
+ * own config, so it only applies to git commands run in that repository. An existing
+ * repository (e.g. from actions/checkout) is used as is, while an existing directory
+ * which isn't one (e.g. the workspace of a job without a checkout) is initialized.
+ *
+ * Nothing is checked out; PR commits (which may come from a fork) are fetched with
+ * gitFetch and only read, never checked out.
+ */
+export function ensureRepo({
+  repo_path,
+  token,
+  repository,
+  server_url = github.context.serverUrl,
+}: {
+  repo_path: string
+  token: string
+  repository: PayloadRepository
+  server_url?: string
+}): typeof process.env {
+  // Fail rather than prompt for credentials.
+  const env: typeof process.env = {...process.env, GIT_TERMINAL_PROMPT: '0'}
+  if (!fs.existsSync(`${repo_path}/.git`)) {
+    const url = `${server_url.replace(/\/+$/, '')}/${repository.full_name}`
+    core.debug(`Initializing ${repo_path} with origin ${url}.`)
+    fs.mkdirSync(repo_path, {recursive: true})
+    const git = (args: string[]): void => {
+      execFileSync('git', args, {env, cwd: repo_path, stdio: 'ignore'})
+    }
+    const credentials = Buffer.from(`x-access-token:${token}`).toString(
+      'base64'
+    )
+    core.setSecret(credentials)
+    git(['init', '--quiet'])
+    git([
+      'config',
+      '--local',
+      `http.${new URL(url).origin}/.extraheader`,
+      `AUTHORIZATION: basic ${credentials}`,
+    ])
+    git(['remote', 'add', 'origin', url])
+  }
+  return env
+}
+
+/**
+ * Fetch commits from origin with the given depth (0 for the full history).
+ *
+ * The head of a PR from a fork isn't on any of the repository's branches, so if
+ * pull_head is given, the PR's head commit is fetched through refs/pull/<number>/head
+ * (which GitHub maintains in the base repository) rather than by SHA. The fetched
+ * ref is kept under refs/remotes/origin/pull/ so that the working tree and branches
+ * are left untouched.
+ *
+ * @throws Error if git fails, e.g. when a commit isn't available from origin
+ */
+export function gitFetch({
+  repo_path,
+  shas,
+  env = process.env,
+  depth = 0,
+  deepen = 0,
+  filter = null,
+  pull_head = null,
+}: {
+  repo_path: string
+  shas: string[]
+  env?: typeof process.env
+  depth?: number
+  // Deepen the history of a shallow repository by this many commits (instead of
+  // fetching with depth).
+  deepen?: number
+  // A partial clone filter (e.g. blob:none), which makes origin a promisor remote
+  // that the filtered out objects are fetched from on demand.
+  filter?: string | null
+  pull_head?: {pull_number: number; sha: string} | null
+}): void {
+  const refspecs = shas.filter(sha => sha !== pull_head?.sha)
+  if (pull_head) {
+    const number = pull_head.pull_number
+    refspecs.push(
+      `+refs/pull/${number}/head:refs/remotes/origin/pull/${number}/head`
+    )
+  }
+  core.debug(
+    `Fetching ${refspecs.join(', ')} (${
+      deepen > 0
+        ? `deepen=${deepen}`
+        : depth > 0
+        ? `depth=${depth}`
+        : 'unlimited depth'
+    }).`
+  )
+  execFileSync(
+    'git',
+    [
+      'fetch',
+      '--no-tags',
+      ...(deepen > 0 ? [`--deepen=${deepen}`] : []),
+      ...(depth > 0 && deepen === 0 ? [`--depth=${depth}`] : []),
+      ...(filter ? [`--filter=${filter}`] : []),
+      'origin',
+      ...refspecs,
+    ],
+    {env, cwd: repo_path, stdio: 'ignore'}
+  )
+}
+
+/**
+ * Generate the (two-dot) diff between two commits in a local repository.
+ *
+ * @returns the diff, or null if git failed or the diff was too large
+ */
+export function gitDiff({
+  repo_path,
+  base,
+  head,
+  env = process.env,
+  ignore_whitespace = false,
+}: {
+  repo_path: string
+  base: string
+  head: string
+  env?: typeof process.env
+  ignore_whitespace?: boolean
+}): string | null {
+  // generate the diff
+  core.debug(`Generating diff between ${base} and ${head}.`)
+  // Use spawn instead of exec here because we want to get the (potentially large)
+  // output of the diff command as a string.
+  // Refer to
+  // https://www.hacksparrow.com/nodejs/difference-between-spawn-and-exec-of-node-js-child-rocess.html
+  // for more details on using exec vs spawn.
+  const diffResult = spawnSync(
+    'git',
+    [
+      '-c',
+      'core.pager=cat',
+      'diff',
+      '--no-ext-diff',
+      '--no-textconv',
+      '--no-color',
+      ...(ignore_whitespace ? ['-w', '--ignore-blank-lines'] : []),
+      base,
+      head,
+    ],
+    {
+      env: {
+        ...env,
+        GIT_PAGER: 'cat',
+      },
+      cwd: repo_path,
+      encoding: 'utf8',
+      // Keep a reasonable buffer; if exceeded we'll return null and pessimistically dismiss
+      maxBuffer: 32 * 1024 * 1024,
+    }
+  )
+
+  if (diffResult.error) {
+    const err = diffResult.error as Error & {code?: string}
+    const codeInfo = err?.code ? ` code=${err.code}` : ''
+    if (err?.code === 'ENOBUFS') {
+      core.warning(
+        `git diff output exceeded buffer (${repo_path}). Returning null to allow pessimistic dismissal.${codeInfo}`
+      )
+      return null
+    }
+    core.error(
+      `Failed to spawn git diff in ${repo_path}: ${String(
+        err?.message || err
+      )}${codeInfo}`
+    )
+    return null
+  }
+
+  // git diff returns 0 (no changes) or 1 (changes found). >1 indicates an error.
+  if (typeof diffResult.status === 'number' && diffResult.status > 1) {
+    const stderr = (diffResult.stderr || '').toString()
+    core.error(
+      `git diff exited with code ${diffResult.status} (cwd=${repo_path}). stderr:\n${stderr}`
+    )
+    return null
+  }
+
+  // With encoding set, stdout is guaranteed to be a string.
+  return diffResult.stdout || ''
+}
+
+// Get the merge base of two commits in a local repository.
+export function gitMergeBase({
+  repo_path,
+  a,
+  b,
+}: {
+  repo_path: string
+  a: string
+  b: string
+}): string {
+  return execSync(`git merge-base ${a} ${b}`, {
+    cwd: repo_path,
+    encoding: 'utf8',
+  }).trim()
+}
+
+// Whether a commit is an ancestor of (or the same as) another one in the local
+// history, which may be cut off by a shallow fetch.
+export function gitIsAncestor({
+  repo_path,
+  ancestor,
+  descendant,
+  env = process.env,
+}: {
+  repo_path: string
+  ancestor: string
+  descendant: string
+  env?: typeof process.env
+}): boolean {
+  const result = spawnSync(
+    'git',
+    ['merge-base', '--is-ancestor', ancestor, descendant],
+    {env, cwd: repo_path}
+  )
+  return result.status === 0
+}
+
+// Whether the local repository has a shallow history.
+export function gitIsShallow(repo_path: string): boolean {
+  return (
+    execFileSync('git', ['rev-parse', '--is-shallow-repository'], {
+      cwd: repo_path,
+      encoding: 'utf8',
+    }).trim() === 'true'
+  )
+}
+
+// Get the contents of a file at a commit, or null if it doesn't exist there.
+export function gitShowFile({
+  repo_path,
+  ref,
+  path,
+}: {
+  repo_path: string
+  ref: string
+  path: string
+}): string | null {
+  const result = spawnSync('git', ['show', `${ref}:${path}`], {
+    cwd: repo_path,
+    encoding: 'utf8',
+  })
+  return result.status === 0 ? result.stdout : null
+}
+
+export interface ChangedBlob {
+  path: string
+  // The blob SHA of the file after the change, or null if it was deleted.
+  head_blob_sha: string | null
+}
+
+/**
+ * List the files changed between two commits with their blob SHAs. Unlike the full
+ * diff, this stays small for huge changes.
+ *
+ * @returns the changed files, or null if git failed
+ */
+export function gitChangedBlobs({
+  repo_path,
+  base,
+  head,
+  env = process.env,
+}: {
+  repo_path: string
+  base: string
+  head: string
+  env?: typeof process.env
+}): ChangedBlob[] | null {
+  const result = spawnSync(
+    'git',
+    ['diff', '--raw', '--no-abbrev', '--no-renames', '-z', base, head],
+    {env, cwd: repo_path, encoding: 'utf8', maxBuffer: 32 * 1024 * 1024}
+  )
+  if (result.error || result.status !== 0) {
+    core.warning(
+      `git diff --raw failed in ${repo_path}: ${
+        result.error?.message ?? result.stderr
+      }`
+    )
+    return null
+  }
+  // Each entry is ":<old mode> <new mode> <old sha> <new sha> <status>\0<path>\0".
+  const fields = result.stdout.split('\0')
+  const blobs: ChangedBlob[] = []
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const [, , , new_sha] = fields[i].split(' ')
+    blobs.push({
+      path: fields[i + 1],
+      head_blob_sha: /^0+$/.test(new_sha) ? null : new_sha,
+    })
+  }
+  return blobs
+}
+
+/**
+ * List the commits on the first-parent chain from base (exclusive) to head, oldest
+ * first.
+ */
+export function gitFirstParentLog({
+  repo_path,
+  base,
+  head,
+}: {
+  repo_path: string
+  base: string
+  head: string
+}): {sha: string; subject: string}[] {
+  const output = execSync(
+    `git log --first-parent --reverse --format=%H%x09%s ${base}..${head}`,
+    {cwd: repo_path, encoding: 'utf8', maxBuffer: 32 * 1024 * 1024}
+  )
+  return output
+    .split('\n')
+    .filter(line => line)
+    .map(line => {
+      const tab = line.indexOf('\t')
+      return {sha: line.slice(0, tab), subject: line.slice(tab + 1)}
+    })
+}
@@ -0,0 +1,132 @@
+// Module for rules which exclude files (e.g. lockfiles, snapshots and generated code)
+// from the staleness comparison.
+
+import {minimatch} from 'minimatch'
+import {FileDiff, joinDiff, splitDiff} from './diff'
+
+export type PathMatcher = (path: string) => boolean
+
+interface GitAttributesRule {
+  pattern: string
+  generated: boolean
+}
+
+export interface FilteredDiff {
+  // The diff with the sections of ignored files removed.
+  diff: string
+  // The sections of the files which were kept.
+  files: FileDiff[]
+  // The sections of the ignored files.
+  ignored: FileDiff[]
+}
+
+/**
+ * Build a matcher for the files to ignore.
+ *
+ * @param params.ignore_paths - Glob patterns of paths to ignore. As in .gitignore,
+ *   patterns without a slash match at any depth and a leading slash anchors the
+ *   pattern to the repository root.
+ * @param params.gitattributes - Contents of the .gitattributes file to honor
+ *   linguist-generated attributes from, or null to not ignore generated files.
+ */
+export function buildIgnoreMatcher({
+  ignore_paths,
+  gitattributes,
+}: {
+  ignore_paths: string[]
+  gitattributes: string | null
+}): PathMatcher {
+  const globs = ignore_paths.map(toMinimatchPattern)
+  const generated = gitattributes ? parseLinguistGenerated(gitattributes) : []
+  return (path: string): boolean => {
+    if (globs.some(glob => minimatch(path, glob, {dot: true}))) {
+      return true
+    }
+    // As with all gitattributes, the last matching line wins.
+    let is_generated = false
+    for (const rule of generated) {
+      if (minimatch(path, rule.pattern, {dot: true})) {
+        is_generated = rule.generated
+      }
+    }
+    return is_generated
+  }
+}
+
+/**
+ * Parse the linguist-generated attributes[1] out of a .gitattributes file.
+ *
+ * [1] https://github.com/github-linguist/linguist/blob/master/docs/overrides.md#generated-code
+ */
+export function parseLinguistGenerated(
+  gitattributes: string
+): GitAttributesRule[] {
+  const rules: GitAttributesRule[] = []
+  for (const rawLine of gitattributes.split('\n')) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) {
+      continue
+    }
+    const [pattern, ...attributes] = line.split(/\s+/)
+    for (const attribute of attributes) {
+      if (
+        attribute === 'linguist-generated' ||
+        attribute === 'linguist-generated=true'
+      ) {
+        rules.push({pattern: anchorPattern(pattern), generated: true})
+      } else if (
+        attribute === '-linguist-generated' ||
+        attribute === '!linguist-generated' ||
+        attribute === 'linguist-generated=false'
+      ) {
+        rules.push({pattern: anchorPattern(pattern), generated: false})
+      }
+    }
+  }
+  return rules
+}
+
+/**
+ * Remove the sections of ignored files from a diff. The diff is always rebuilt from
+ * its file sections so that filtered diffs compare equal regardless of which (or
+ * whether any) files were removed.
+ */
+export function filterDiff(
+  diff: string,
+  is_ignored: PathMatcher
+): FilteredDiff {
+  const kept: FileDiff[] = []
+  const ignored: FileDiff[] = []
+  for (const file of splitDiff(diff)) {
+    if (is_ignored(file.path)) {
+      ignored.push(file)
+    } else {
+      kept.push(file)
+    }
+  }
+  return {diff: joinDiff(kept), files: kept, ignored}
+}
+
+// Translate a .gitignore style pattern to a minimatch glob. As in .gitignore, a
+// pattern which matches a directory also matches everything in it, so e.g. "dist"
+// matches "dist/index.js".
+export function toMinimatchPattern(pattern: string): string {
+  const glob = anchorPattern(pattern)
+  return glob.endsWith('/**') ? glob : `${glob}{,/**}`
+}
+
+// Translate a .gitattributes style pattern to a minimatch glob. Unlike in .gitignore,
+// a pattern which matches a directory doesn't apply to the files in it.
+export function anchorPattern(pattern: string): string {
+  let glob = pattern
+  if (glob.endsWith('/')) {
+    glob = `${glob}**`
+  }
+  if (glob.startsWith('/')) {
+    return glob.slice(1)
+  }
+  if (!glob.replace(/\/\*\*$/, '').includes('/')) {
+    return `**/${glob}`
+  }
+  return glob
+}
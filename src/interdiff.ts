@@ -0,0 +1,183 @@
+// Module for computing and rendering what changed between the reviewed and current
+// diffs of a PR (an "interdiff"), so reviewers don't have to hunt for the delta when
+// their approval is dismissed.
+
+import {FileDiff} from './diff'
+
+export interface FileInterdiff {
+  path: string
+  // Hunks in the current diff which weren't in the reviewed diff.
+  added_hunks: string[]
+  // Hunks in the reviewed diff which are no longer in the current diff.
+  removed_hunks: string[]
+}
+
+export interface InterdiffSection {
+  heading: string
+  range_diff_summary: string | null
+  interdiff: FileInterdiff[] | null
+}
+
+// Marker used to find the comment to update on subsequent runs.
+export const INTERDIFF_COMMENT_MARKER = '<!-- dismiss-if-stale:interdiff -->'
+
+// GitHub limits comments to 65536 characters; leave room for the truncation notice.
+const MAX_COMMENT_LENGTH = 60000
+
+/**
+ * Compute the hunks added and removed per file between the reviewed and current
+ * diffs. Hunks are compared without their "@@" headers so that shifted line offsets
+ * alone don't show up as changes.
+ */
+export function computeInterdiff(
+  reviewed: FileDiff[],
+  current: FileDiff[]
+): FileInterdiff[] {
+  const reviewed_by_path = new Map(reviewed.map(file => [file.path, file.text]))
+  const current_by_path = new Map(current.map(file => [file.path, file.text]))
+  const paths = [
+    ...new Set([...reviewed_by_path.keys(), ...current_by_path.keys()]),
+  ].sort((a, b) => a.localeCompare(b))
+
+  const interdiff: FileInterdiff[] = []
+  for (const path of paths) {
+    const reviewed_hunks = splitHunks(reviewed_by_path.get(path) ?? '')
+    const current_hunks = splitHunks(current_by_path.get(path) ?? '')
+    const reviewed_keys = new Set(reviewed_hunks.map(hunkKey))
+    const current_keys = new Set(current_hunks.map(hunkKey))
+    const added_hunks = current_hunks.filter(
+      h => !reviewed_keys.has(hunkKey(h))
+    )
+    const removed_hunks = reviewed_hunks.filter(
+      h => !current_keys.has(hunkKey(h))
+    )
+    if (added_hunks.length > 0 || removed_hunks.length > 0) {
+      interdiff.push({path, added_hunks, removed_hunks})
+    }
+  }
+  return interdiff
+}
+
+/**
+ * Render the interdiffs of the dismissed reviews as a Markdown comment, with each
+ * file collapsed. If the comment would be too long, the remaining files are omitted
+ * and the reader is pointed at artifacts_url instead.
+ */
+export function renderInterdiffComment({
+  sections,
+  artifacts_url,
+}: {
+  sections: InterdiffSection[]
+  artifacts_url: string | null
+}): string {
+  const parts: string[] = [
+    INTERDIFF_COMMENT_MARKER,
+    '## Changes since approval',
+    '',
+  ]
+  let length = parts.join('\n').length
+  let omitted = 0
+  for (const section of sections) {
+    const header = [`### ${section.heading}`, '']
+    if (section.range_diff_summary) {
+      header.push(`Range-diff: ${section.range_diff_summary}`, '')
+    }
+    if (section.interdiff === null) {
+      header.push(
+        'The reviewed and current diffs could not be compared, so no interdiff is available.',
+        ''
+      )
+    }
+    const blocks = (section.interdiff ?? []).map(renderFile)
+    for (const block of [header.join('\n'), ...blocks]) {
+      if (omitted > 0 || length + block.length + 1 > MAX_COMMENT_LENGTH) {
+        omitted++
+        continue
+      }
+      parts.push(block)
+      length += block.length + 1
+    }
+  }
+  if (omitted > 0) {
+    let notice = `_The interdiff was truncated (${omitted} more block(s) omitted)._`
+    if (artifacts_url) {
+      notice += ` The full reviewed and current diffs are available in the [workflow run's artifacts](${artifacts_url}).`
+    }
+    parts.push(notice)
+  }
+  return parts.join('\n')
+}
+
+function renderFile(file: FileInterdiff): string {
+  const counts: string[] = []
+  if (file.added_hunks.length > 0) {
+    counts.push(`${file.added_hunks.length} hunk(s) added`)
+  }
+  if (file.removed_hunks.length > 0) {
+    counts.push(`${file.removed_hunks.length} hunk(s) removed`)
+  }
+  const lines = [
+    '<details>',
+    `<summary><code>${escapeHtml(file.path)}</code>: ${counts.join(
+      ', '
+    )}</summary>`,
+    '',
+  ]
+  if (file.added_hunks.length > 0) {
+    lines.push('Added since the approval:', '', fenced(file.added_hunks), '')
+  }
+  if (file.removed_hunks.length > 0) {
+    lines.push(
+      'No longer in the pull request:',
+      '',
+      fenced(file.removed_hunks),
+      ''
+    )
+  }
+  lines.push('</details>', '')
+  return lines.join('\n')
+}
+
+// Split a file's section of a diff into hunks, dropping the file header. Sections
+// canonicalized without "@@" headers are treated as a single hunk.
+function splitHunks(text: string): string[] {
+  if (!text) {
+    return []
+  }
+  const lines = text.split('\n')
+  let start = lines.findIndex(line => line.startsWith('@@'))
+  if (start === -1) {
+    start = lines.findIndex(line => line.startsWith('+++ ')) + 1
+  }
+  if (start === 0) {
+    // No hunks at all, e.g. a binary or mode-only change.
+    return [text]
+  }
+  const hunks: string[][] = []
+  for (const line of lines.slice(start)) {
+    if (line.startsWith('@@') || hunks.length === 0) {
+      hunks.push([])
+    }
+    hunks[hunks.length - 1].push(line)
+  }
+  return hunks.map(hunk => hunk.join('\n'))
+}
+
+function hunkKey(hunk: string): string {
+  return hunk.startsWith('@@') ? hunk.slice(hunk.indexOf('\n') + 1) : hunk
+}
+
+function fenced(hunks: string[]): string {
+  const text = hunks.join('\n')
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map(run => run.length)
+  )
+  const fence = '`'.repeat(longest + 1)
+  return `${fence}diff\n${text}\n${fence}`
+}
+
+// Escape text for use in HTML, e.g. in a comment or the job summary.
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
@@ -0,0 +1,168 @@
+// Module for the job summary shown on the workflow run's page: the approvals found,
+// how each was evaluated and the final verdict, so that a decision can be debugged
+// without re-running the job with debug logging.
+
+import * as core from '@actions/core'
+import {SummaryTableRow} from '@actions/core/lib/summary'
+import {splitDiff} from './diff'
+import {escapeHtml} from './interdiff'
+import {Review} from './pull-request'
+import {RangeDiffCommit} from './range-diff'
+
+const RANGE_DIFF_CHANGES: Record<RangeDiffCommit['marker'], string> = {
+  '=': 'identical',
+  '!': 'modified',
+  '<': 'removed',
+  '>': 'added',
+}
+
+/**
+ * Add a table of the approvals, with how each one's snapshot was obtained if given.
+ */
+export function addApprovalsSummary(
+  approvals: {review: Review; snapshot?: string}[]
+): void {
+  core.summary.addHeading('Approvals', 2)
+  if (approvals.length === 0) {
+    core.summary.addRaw('No approvals on the pull request.', true)
+    return
+  }
+  const with_snapshots = approvals.some(({snapshot}) => snapshot !== undefined)
+  const header = ['Review', 'Reviewer', 'Commit', 'Submitted']
+  if (with_snapshots) {
+    header.push('Snapshot')
+  }
+  const rows: SummaryTableRow[] = [header.map(data => ({data, header: true}))]
+  for (const {review, snapshot} of approvals) {
+    const row = [
+      `${review.id}`,
+      escapeHtml(review.user?.login ?? 'unknown'),
+      `<code>${review.commit_id?.slice(0, 12) ?? 'unknown'}</code>`,
+      review.submitted_at ?? 'unknown',
+    ]
+    if (with_snapshots) {
+      row.push(escapeHtml(snapshot ?? ''))
+    }
+    rows.push(row)
+  }
+  core.summary.addTable(rows)
+}
+
+export function addReviewHeading(review: Review): void {
+  core.summary.addHeading(
+    escapeHtml(`Review ${review.id} by @${review.user?.login ?? 'unknown'}`),
+    3
+  )
+}
+
+// Add a line to the section of the review being evaluated.
+export function addReviewDetail(label: string, text: string): void {
+  core.summary.addRaw(`<p><b>${label}:</b> ${escapeHtml(text)}</p>`, true)
+}
+
+/**
+ * Add what range-diff found: its outcome, and a table of the commit pairs it compared
+ * (if any).
+ */
+export function addRangeDiffSummary(
+  outcome: string,
+  commits: RangeDiffCommit[]
+): void {
+  addReviewDetail('Range-diff', outcome)
+  if (commits.length === 0) {
+    return
+  }
+  const rows: SummaryTableRow[] = [
+    ['Approved commit', 'Current commit', 'Change', 'Subject'].map(data => ({
+      data,
+      header: true,
+    })),
+  ]
+  for (const commit of commits) {
+    let change = RANGE_DIFF_CHANGES[commit.marker]
+    if (commit.marker === '!') {
+      change += commit.code_changed ? ' (code)' : ' (metadata only)'
+    }
+    rows.push([
+      commit.approved_sha ? `<code>${commit.approved_sha}</code>` : '',
+      commit.current_sha ? `<code>${commit.current_sha}</code>` : '',
+      change,
+      escapeHtml(commit.subject),
+    ])
+  }
+  core.summary.addTable(rows)
+}
+
+/**
+ * Describe the size of a diff, e.g. "3 file(s), +10 -2 lines, 1234 bytes".
+ */
+export function describeDiffSize(diff: string | null): string {
+  if (diff === null) {
+    return 'unavailable'
+  }
+  let added = 0
+  let removed = 0
+  const files = splitDiff(diff)
+  for (const file of files) {
+    const lines = file.text.split('\n')
+    const hunk_start = lines.findIndex(line => line.startsWith('@@'))
+    if (hunk_start === -1) {
+      continue
+    }
+    for (const line of lines.slice(hunk_start)) {
+      if (line.startsWith('+')) {
+        added++
+      } else if (line.startsWith('-')) {
+        removed++
+      }
+    }
+  }
+  return (
+    `${files.length} file(s), +${added} -${removed} lines, ` +
+    `${Buffer.byteLength(diff)} bytes`
+  )
+}
+
+// Add a table of the sizes of the diffs which were computed.
+export function addDiffSizesSummary(diffs: [string, string | null][]): void {
+  if (diffs.length === 0) {
+    return
+  }
+  core.summary.addHeading('Current diffs', 2)
+  core.summary.addTable([
+    [
+      {data: 'Diff', header: true},
+      {data: 'Size', header: true},
+    ],
+    ...diffs.map(([label, diff]) => [label, describeDiffSize(diff)]),
+  ])
+}
+
+export function addVerdictSummary(verdict: string, details: string[]): void {
+  core.summary.addHeading('Verdict', 2)
+  core.summary.addRaw(`<p><b>${escapeHtml(verdict)}</b></p>`, true)
+  if (details.length > 0) {
+    core.summary.addList(details.map(escapeHtml))
+  }
+}
+
+/**
+ * Write the job summary. Outside of GitHub Actions (e.g. in tests) there is no job
+ * summary, so the buffered summary is dropped.
+ */
+export async function writeJobSummary(): Promise<void> {
+  if (!process.env['GITHUB_STEP_SUMMARY']) {
+    core.debug('No job summary file; not writing the job summary.')
+    core.summary.emptyBuffer()
+    return
+  }
+  try {
+    await core.summary.write()
+  } catch (error) {
+    core.warning(
+      `Unable to write the job summary: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+  }
+}
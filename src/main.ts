@@ -1,37 +1,176 @@
 import * as core from '@actions/core'
+import * as github from '@actions/github'
+import {SmallChangePolicy} from './change-size'
+import {publishCheckRun} from './check-run'
 import {checkForApprovals} from './check-for-approvals'
+import {DiffComparison} from './diff-comparison'
 import {dismissIfStale} from './dismiss-if-stale'
+import {ensureRepo} from './git'
+import {CheckRunConclusion} from './pull-request'
+import {snapshotApproval} from './snapshot-approval'
+import {
+  FileSnapshotStore,
+  GitRefSnapshotStore,
+  SnapshotStore,
+} from './snapshot-store'
+import {verifyMergeGroup} from './verify-merge-group'
 
 async function run(): Promise<void> {
   try {
     const mode: string = core.getInput('mode', {required: true})
     const token = core.getInput('token', {required: true})
+    const api_url = core.getInput('api_url')
+    const snapshot_signing_key = core.getInput('snapshot_signing_key')
+    if (snapshot_signing_key) {
+      core.setSecret(snapshot_signing_key)
+    }
     if (mode === 'check-for-approvals') {
-      const result = await checkForApprovals(token)
-      core.debug(`approval result: ${JSON.stringify(result)}`)
-      if (result != null) {
-        core.setOutput('approved_sha', result.approved_sha)
-        core.setOutput('review_id', result.review_id.toString())
+      const approvals = await checkForApprovals(token, api_url)
+      core.debug(`approval result: ${JSON.stringify(approvals)}`)
+      const latest = approvals[approvals.length - 1]
+      if (latest) {
+        core.setOutput('approved_sha', latest.approved_sha)
+        core.setOutput('review_id', latest.review_id.toString())
       } else {
         core.setOutput('approved_sha', '')
         core.setOutput('review_id', '')
       }
+      core.setOutput('approvals', JSON.stringify(approvals))
     } else if (mode === 'dismiss-stale-reviews') {
-      await dismissIfStale({
+      const result = await dismissIfStale({
         token,
-        path_to_cached_diff: core.getInput('path_to_cached_diff', {
-          required: true,
-        }),
-        path_to_cached_metadata: core.getInput('path_to_cached_metadata'),
+        api_url,
+        snapshot_store: getSnapshotStore(token, () => ({
+          metadata: core.getInput('path_to_cached_metadata'),
+          diff: core.getInput('path_to_cached_diff', {required: true}),
+        })),
+        snapshot_signing_key,
         repo_path: core.getInput('repo_path', {required: true}),
-        range_diff_fetch_depth: (() => {
-          const parsed = parseInt(core.getInput('range_diff_fetch_depth'), 10)
-          if (isNaN(parsed)) {
-            throw new Error('range_diff_fetch_depth must be a valid integer')
+        range_diff_fetch_depth: getFetchDepth(),
+        range_diff_max_fetch_depth: getMaxFetchDepth(),
+        ignore_paths: core.getMultilineInput('ignore_paths'),
+        ignore_linguist_generated: core.getBooleanInput(
+          'ignore_linguist_generated'
+        ),
+        codeowners_aware: core.getBooleanInput('codeowners_aware'),
+        non_owner_approvals: (() => {
+          const policy = core.getInput('non_owner_approvals')
+          if (policy !== 'dismiss' && policy !== 'keep') {
+            throw new Error('non_owner_approvals must be "dismiss" or "keep"')
           }
-          return parsed
+          return policy
         })(),
+        small_change: getSmallChangePolicy(),
+        diff_comparison: getDiffComparison(),
+        ignore_whitespace: core.getBooleanInput('ignore_whitespace'),
+        comment_on_dismissal: core.getBooleanInput('comment_on_dismissal'),
+        rerequest_reviews: core.getBooleanInput('rerequest_reviews'),
+        skip_label: core.getInput('skip_label'),
+        re_review_label: core.getInput('re_review_label'),
+        dry_run: core.getBooleanInput('dry_run'),
+      })
+      core.debug(`dismissal result: ${JSON.stringify(result)}`)
+      core.setOutput('is_stale', result.is_stale.toString())
+      core.setOutput('decision_method', result.decision_method)
+      core.setOutput('reason', result.reason)
+      core.setOutput(
+        'change_size',
+        result.change_size ? JSON.stringify(result.change_size) : ''
+      )
+      core.setOutput(
+        'dismissed_review_ids',
+        JSON.stringify(result.dismissed_review_ids)
+      )
+      core.setOutput('changed_files', JSON.stringify(result.changed_files))
+      core.setOutput(
+        'rerequested_reviewers',
+        JSON.stringify(result.rerequested_reviewers)
+      )
+      core.setOutput(
+        'rerequested_teams',
+        JSON.stringify(result.rerequested_teams)
+      )
+      core.setOutput(
+        'failed_review_ids',
+        JSON.stringify(result.failed_review_ids)
+      )
+      const check_run_name = core.getInput('check_run_name')
+      if (check_run_name) {
+        await publishCheckRun({
+          token,
+          api_url,
+          result,
+          dry_run: core.getBooleanInput('dry_run'),
+          options: {
+            name: check_run_name,
+            conclusion_on_dismissal: getCheckRunConclusion(
+              'check_run_conclusion_on_dismissal'
+            ),
+            conclusion_on_pessimistic: getCheckRunConclusion(
+              'check_run_conclusion_on_pessimistic'
+            ),
+          },
+        })
+      }
+      if (result.failed_review_ids.length > 0) {
+        core.setFailed(
+          `Failed to dismiss stale review(s) ${result.failed_review_ids.join(
+            ', '
+          )}; re-run the job to retry.`
+        )
+      }
+    } else if (mode === 'verify-merge-group') {
+      const result = await verifyMergeGroup({
+        token,
+        api_url,
+        snapshot_store: getSnapshotStore(token, () => ({
+          metadata: core.getInput('path_to_cached_metadata'),
+          diff: core.getInput('path_to_cached_diff', {required: true}),
+        })),
+        snapshot_signing_key,
+        repo_path: core.getInput('repo_path', {required: true}),
+        fetch_depth: getFetchDepth(),
+        ignore_paths: core.getMultilineInput('ignore_paths'),
+        ignore_linguist_generated: core.getBooleanInput(
+          'ignore_linguist_generated'
+        ),
+        diff_comparison: getDiffComparison(),
+        ignore_whitespace: core.getBooleanInput('ignore_whitespace'),
+      })
+      core.debug(`merge group result: ${JSON.stringify(result)}`)
+      core.setOutput('is_stale', result.is_stale.toString())
+      core.setOutput('reason', result.reason)
+      core.setOutput(
+        'stale_pull_numbers',
+        JSON.stringify(result.stale_pull_numbers)
+      )
+      core.setOutput('changed_files', JSON.stringify(result.changed_files))
+      if (result.is_stale) {
+        if (core.getBooleanInput('dry_run')) {
+          core.notice(`Dry run: not failing the merge group. ${result.reason}`)
+        } else {
+          core.setFailed(result.reason)
+        }
+      }
+    } else if (mode === 'snapshot-approval') {
+      const result = await snapshotApproval({
+        token,
+        api_url,
+        snapshot_store: getSnapshotStore(token, () => ({
+          metadata:
+            core.getInput('path_to_cached_metadata') ||
+            'approval-metadata.json',
+          diff: core.getInput('path_to_cached_diff') || 'approved.diff',
+        })),
+        signing_key: snapshot_signing_key,
+        re_review_label: core.getInput('re_review_label'),
       })
+      core.debug(`snapshot result: ${JSON.stringify(result)}`)
+      core.setOutput('metadata_path', result?.metadata_path ?? '')
+      core.setOutput('diff_path', result?.diff_path ?? '')
+      core.setOutput('cache_key', result?.cache_key ?? '')
+    } else {
+      throw new Error(`Unknown mode: ${mode}`)
     }
   } catch (error) {
     if (error instanceof Error) {
@@ -42,4 +181,82 @@ async function run(): Promise<void> {
   }
 }
 
+function getFetchDepth(): number {
+  const parsed = parseInt(core.getInput('range_diff_fetch_depth'), 10)
+  if (isNaN(parsed)) {
+    throw new Error('range_diff_fetch_depth must be a valid integer')
+  }
+  return parsed
+}
+
+function getMaxFetchDepth(): number {
+  const parsed = parseInt(core.getInput('range_diff_max_fetch_depth'), 10)
+  if (isNaN(parsed)) {
+    throw new Error('range_diff_max_fetch_depth must be a valid integer')
+  }
+  return parsed
+}
+
+function getSmallChangePolicy(): SmallChangePolicy {
+  const [max_lines, max_files] = [
+    'small_change_max_lines',
+    'small_change_max_files',
+  ].map(name => {
+    const parsed = parseInt(core.getInput(name), 10)
+    if (isNaN(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a non-negative integer`)
+    }
+    return parsed
+  })
+  return {
+    max_lines,
+    max_files,
+    paths: core.getMultilineInput('small_change_paths'),
+  }
+}
+
+function getDiffComparison(): DiffComparison {
+  const comparison = core.getInput('diff_comparison')
+  if (comparison !== 'exact' && comparison !== 'changed-lines') {
+    throw new Error('diff_comparison must be "exact" or "changed-lines"')
+  }
+  return comparison
+}
+
+function getCheckRunConclusion(name: string): CheckRunConclusion {
+  const conclusion = core.getInput(name)
+  if (
+    conclusion !== 'success' &&
+    conclusion !== 'neutral' &&
+    conclusion !== 'failure'
+  ) {
+    throw new Error(`${name} must be "success", "neutral" or "failure"`)
+  }
+  return conclusion
+}
+
+// Create the snapshot store selected by the snapshot_store input. getPaths is only
+// called for the files store, whose paths are mode-specific.
+function getSnapshotStore(
+  token: string,
+  getPaths: () => {metadata: string; diff: string}
+): SnapshotStore {
+  const type = core.getInput('snapshot_store') || 'files'
+  if (type === 'files') {
+    const paths = getPaths()
+    return new FileSnapshotStore(paths.metadata, paths.diff)
+  }
+  if (type === 'git-ref') {
+    const repo_path = core.getInput('repo_path', {required: true})
+    return new GitRefSnapshotStore(repo_path, () => {
+      const repository = github.context.payload.repository
+      if (!repository) {
+        throw new Error('No repository in the event payload.')
+      }
+      return ensureRepo({repo_path, token, repository})
+    })
+  }
+  throw new Error('snapshot_store must be "files" or "git-ref"')
+}
+
 run()
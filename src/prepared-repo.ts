@@ -0,0 +1,200 @@
+// Module for preparing the local repository which range-diff and the two-dot diff are
+// computed in.
+//
+// The commits needed are planned up front and fetched with a single blobless partial
+// fetch (--filter=blob:none): commits and trees are downloaded, but blobs are only
+// fetched on demand by the git commands which read them, i.e. only those of the
+// files which are actually diffed. On large repositories this avoids downloading
+// full trees' worth of blobs for every fetched commit.
+
+import * as core from '@actions/core'
+import {PayloadRepository} from '@actions/github/lib/interfaces'
+import {ensureRepo, gitFetch, gitIsAncestor, gitIsShallow} from './git'
+
+// The outcome of deepenUntilConnected: the depth the history was deepened to, or why
+// the ranges are still incomplete.
+export type DeepenResult =
+  | {connected: true; depth: number}
+  | {
+      connected: false
+      // not-ancestor: the history is complete, but a base isn't an ancestor of its
+      //   tip
+      // max-depth: the ranges are deeper than max_depth
+      reason: 'not-ancestor' | 'max-depth'
+    }
+
+export class PreparedRepo {
+  private env: typeof process.env | null = null
+  private readonly planned = new Set<string>()
+  // The depth to fetch the planned commits with, covering every plan.
+  private planned_depth = 1
+  private readonly fetched = new Set<string>()
+  // The depth deepenUntilConnected deepened the history to.
+  private deepened_to = 0
+
+  constructor(
+    private readonly params: {
+      repo_path: string
+      token: string
+      repository: PayloadRepository
+      // The PR's head, to fetch through the PR's ref when it's from a fork.
+      pull_head: {pull_number: number; sha: string} | null
+      // The deepest to deepen the history to in deepenUntilConnected (0 for no
+      // limit).
+      max_depth?: number
+    }
+  ) {}
+
+  get repo_path(): string {
+    return this.params.repo_path
+  }
+
+  // Add commits to fetch with the next fetch, with at least the given depth (0 for
+  // the full history, e.g. for range-diff to walk the commit ranges).
+  plan(shas: string[], depth: number): void {
+    const missing = shas.filter(sha => !this.fetched.has(sha))
+    if (missing.length === 0) {
+      return
+    }
+    this.planned_depth =
+      this.planned.size === 0 ? depth : deeper(this.planned_depth, depth)
+    for (const sha of missing) {
+      this.planned.add(sha)
+    }
+  }
+
+  /**
+   * Ensure the repository exists and the given commits are fetched, along with all
+   * planned commits which haven't been fetched yet, in a single fetch. If that fetch
+   * fails (e.g. because a planned commit no longer exists), the given commits are
+   * fetched on their own.
+   *
+   * @returns the env to run git commands in the repository with
+   * @throws Error if the given commits can't be fetched
+   */
+  prepare(shas: string[] = [], depth = 1): typeof process.env {
+    const env =
+      this.env ??
+      timed('Repository setup', () =>
+        ensureRepo({
+          repo_path: this.params.repo_path,
+          token: this.params.token,
+          repository: this.params.repository,
+        })
+      )
+    this.env = env
+    this.plan(shas, depth)
+    if (this.planned.size === 0) {
+      return env
+    }
+
+    const planned = [...this.planned]
+    try {
+      this.fetch(planned, this.planned_depth, env)
+    } catch (error) {
+      const needed = shas.filter(sha => !this.fetched.has(sha))
+      if (needed.length === planned.length) {
+        throw error
+      }
+      core.warning(
+        `Unable to fetch all of ${planned.join(
+          ', '
+        )}; fetching only ${needed.join(', ')}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      // Don't retry the commits which failed with every later fetch.
+      this.planned.clear()
+      if (needed.length > 0) {
+        this.fetch(needed, depth, env)
+      }
+    }
+    return env
+  }
+
+  /**
+   * Deepen the shallow history until the base of each range is reachable from its
+   * tip, e.g. so that range-diff sees complete commit ranges rather than ranges cut
+   * off at the shallow boundary. The depth is doubled with each fetch, starting from
+   * the depth the commits were fetched with, up to max_depth.
+   *
+   * Must be called after prepare fetched the ranges' commits.
+   *
+   * @returns the depth the history was deepened to (the initial depth if no
+   *   deepening was needed), or why the ranges are still incomplete
+   */
+  deepenUntilConnected(
+    ranges: {base: string; tip: string}[],
+    depth: number
+  ): DeepenResult {
+    const env = this.prepare()
+    const {repo_path, pull_head, max_depth = 0} = this.params
+    const isConnected = (): boolean =>
+      ranges.every(({base, tip}) =>
+        gitIsAncestor({repo_path, ancestor: base, descendant: tip, env})
+      )
+    let current = Math.max(depth, this.deepened_to)
+    while (!isConnected()) {
+      if (depth === 0 || !gitIsShallow(repo_path)) {
+        // The history is complete, so the bases aren't ancestors of the tips.
+        return {connected: false, reason: 'not-ancestor'}
+      }
+      const next =
+        max_depth > 0 ? Math.min(current * 2, max_depth) : current * 2
+      if (next <= current) {
+        return {connected: false, reason: 'max-depth'}
+      }
+      const tips = [...new Set(ranges.map(({tip}) => tip))]
+      timed(`Deepening the history to ${next} commits`, () =>
+        gitFetch({
+          repo_path,
+          shas: tips,
+          env,
+          deepen: next - current,
+          filter: 'blob:none',
+          pull_head:
+            pull_head && tips.includes(pull_head.sha) ? pull_head : null,
+        })
+      )
+      current = next
+      this.deepened_to = next
+    }
+    return {connected: true, depth: current}
+  }
+
+  private fetch(shas: string[], depth: number, env: typeof process.env): void {
+    timed(`Fetching ${shas.length} commit(s)`, () =>
+      gitFetch({
+        repo_path: this.params.repo_path,
+        shas,
+        env,
+        depth,
+        filter: 'blob:none',
+        pull_head: shas.includes(this.params.pull_head?.sha ?? '')
+          ? this.params.pull_head
+          : null,
+      })
+    )
+    for (const sha of shas) {
+      this.fetched.add(sha)
+      this.planned.delete(sha)
+    }
+  }
+}
+
+// The deeper of two fetch depths, where 0 is the full history.
+function deeper(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : Math.max(a, b)
+}
+
+/**
+ * Run fn, logging how long it took.
+ */
+export function timed<T>(phase: string, fn: () => T): T {
+  const start = Date.now()
+  try {
+    return fn()
+  } finally {
+    core.info(`${phase} took ${Date.now() - start} ms.`)
+  }
+}
@@ -6,10 +6,54 @@ import {GitHub} from '@actions/github/lib/utils'
 // unclear why linter is failing here...
 // eslint-disable-next-line import/named
 import {RestEndpointMethodTypes} from '@octokit/plugin-rest-endpoint-methods'
+import {throttleAndRetry} from './retry'
 
 type ListOfReviews =
   RestEndpointMethodTypes['pulls']['listReviews']['response']['data']
 
+export type Review = ListOfReviews[number]
+
+interface BaseRefChange {
+  createdAt: string
+  previousRefName: string
+  currentRefName: string
+}
+
+interface BaseRefChangesQueryResponse {
+  repository: {
+    pullRequest: {
+      timelineItems: {
+        nodes: BaseRefChange[]
+        pageInfo: {
+          hasNextPage: boolean
+          endCursor: string | null
+        }
+      }
+    }
+  }
+}
+
+interface ReviewTeamsQueryResponse {
+  nodes: ({
+    databaseId: number
+    onBehalfOf: {nodes: {slug: string}[]}
+  } | null)[]
+}
+
+// A merged PR, e.g. the parent of a PR in a stack.
+export interface MergedPullRequest {
+  pull_number: number
+  head_sha: string
+  merge_commit_sha: string
+}
+
+export type CheckRunConclusion = 'success' | 'neutral' | 'failure'
+
+export interface DismissalFailure {
+  review_id: number
+  error: string
+}
+
 type ListOfEvents =
   RestEndpointMethodTypes['issues']['listEvents']['response']['data']
 
@@ -19,23 +63,51 @@ export class PullRequest {
   owner: string
   repo: string
   pull_number: number
+  // The PR's target branch.
+  base_ref: string
+  // Whether the PR's head branch is in a fork (or a deleted fork), in which case its
+  // commits aren't on any of the repository's branches.
+  is_fork: boolean
 
-  constructor(token: string) {
-    this.octokit = github.getOctokit(token)
+  // By default, the PR is the one the event is for; pass pull_request to use another
+  // of the repository's PRs (e.g. one in a merge group). api_url is the base URL of
+  // the REST API (e.g. https://github.example.com/api/v3 for GitHub Enterprise
+  // Server), defaulting to the one of the server the workflow runs on.
+  constructor(
+    token: string,
+    {
+      api_url = '',
+      pull_request,
+    }: {
+      api_url?: string
+      pull_request?: {pull_number: number; base_ref: string; is_fork?: boolean}
+    } = {}
+  ) {
+    this.octokit = github.getOctokit(token, api_url ? {baseUrl: api_url} : {})
+    throttleAndRetry(this.octokit)
 
-    if (
-      !github.context.payload.repository ||
-      !github.context.payload.pull_request
-    ) {
+    const payload = github.context.payload
+    const target =
+      pull_request ??
+      (payload.pull_request && {
+        pull_number: payload.pull_request.number,
+        base_ref: payload.pull_request.base.ref as string,
+        is_fork:
+          payload.pull_request.head.repo?.full_name !==
+          payload.repository?.full_name,
+      })
+    if (!payload.repository || !target) {
       throw new Error('This action must be run on a pull request.')
     }
-    if (!github.context.payload.repository.full_name) {
+    if (!payload.repository.full_name) {
       throw new Error('Unable to determine repository name.')
     }
-    const [owner, repo] = github.context.payload.repository.full_name.split('/')
+    const [owner, repo] = payload.repository.full_name.split('/')
     this.owner = owner
     this.repo = repo
-    this.pull_number = github.context.payload.pull_request.number
+    this.pull_number = target.pull_number
+    this.base_ref = target.base_ref
+    this.is_fork = target.is_fork ?? false
   }
 
   // Get all of the approved reviews for the PR in chronological order.
@@ -61,21 +133,33 @@ export class PullRequest {
     return reviews.filter(review => review.state === 'APPROVED')
   }
 
-  async dismissApprovals(message: string): Promise<void> {
-    const approved_reviews = await this.getApprovedReviews()
-    const requests = []
+  // Dismiss the given approvals, or all of the approvals on the PR if none are given.
+  // The approvals are dismissed one at a time, and a failed dismissal doesn't stop
+  // the others. Dismissed approvals are no longer listed by getApprovedReviews, so
+  // re-running after a failure only retries the failed dismissals.
+  async dismissApprovals(
+    message: string,
+    reviews?: ListOfReviews
+  ): Promise<DismissalFailure[]> {
+    const approved_reviews = reviews ?? (await this.getApprovedReviews())
+    const failures: DismissalFailure[] = []
     for (const review of approved_reviews) {
-      requests.push(
-        this.octokit.rest.pulls.dismissReview({
+      try {
+        await this.octokit.rest.pulls.dismissReview({
           owner: this.owner,
           repo: this.repo,
           pull_number: this.pull_number,
           review_id: review.id,
           message,
         })
-      )
+        core.info(`Dismissed review ${review.id} by ${review.user?.login}.`)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        core.error(`Failed to dismiss review ${review.id}: ${reason}`)
+        failures.push({review_id: review.id, error: reason})
+      }
     }
-    await Promise.all(requests)
+    return failures
   }
 
   async getEvents(): Promise<ListOfEvents> {
@@ -93,6 +177,59 @@ export class PullRequest {
     return events
   }
 
+  // Get the login of whoever most recently applied the label to the PR, or null if the
+  // PR's events don't show it being applied.
+  async getLabeler(label: string): Promise<string | null> {
+    const events = await this.getEvents()
+    for (let i = events.length - 1; i >= 0; i--) {
+      const event = events[i]
+      if (
+        event.event === 'labeled' &&
+        'label' in event &&
+        event.label.name === label
+      ) {
+        return event.actor?.login ?? null
+      }
+    }
+    return null
+  }
+
+  // Get a user's role on the repository, e.g. "admin", "maintain" or "write".
+  async getRole(username: string): Promise<string> {
+    const response =
+      await this.octokit.rest.repos.getCollaboratorPermissionLevel({
+        owner: this.owner,
+        repo: this.repo,
+        username,
+      })
+    return response.data.role_name
+  }
+
+  async addLabel(label: string): Promise<void> {
+    await this.octokit.rest.issues.addLabels({
+      owner: this.owner,
+      repo: this.repo,
+      issue_number: this.pull_number,
+      labels: [label],
+    })
+  }
+
+  // Remove a label from the PR; does nothing if the PR doesn't have it.
+  async removeLabel(label: string): Promise<void> {
+    try {
+      await this.octokit.rest.issues.removeLabel({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: this.pull_number,
+        name: label,
+      })
+    } catch (error) {
+      if ((error as {status?: number}).status !== 404) {
+        throw error
+      }
+    }
+  }
+
   async compareCommits(base: string, head: string): Promise<string> {
     const response = await this.octokit.rest.repos.compareCommitsWithBasehead({
       owner: this.owner,
@@ -111,23 +248,18 @@ export class PullRequest {
     return response.data
   }
 
-  async getMostRecentlyReviewedDiff(): Promise<string | null> {
+  async getReviewedDiff(review: Review): Promise<string | null> {
     // We can do this only if we are able to determine what the target branch was at the
     // time of the approval, and the target branch exists.
     // May return null if unable to get the diff.
 
-    const approved_reviews = await this.getApprovedReviews()
-    const most_recent_review = approved_reviews[approved_reviews.length - 1]
-    const time_of_approval = most_recent_review.submitted_at
+    const time_of_approval = review.submitted_at
     if (!time_of_approval) {
       throw new Error('Unable to determine time of approval.')
     }
     // example time_of_approval: "2021-03-02T20:30:00Z"
 
-    if (!github.context.payload.pull_request) {
-      throw new Error('This action must be run on a pull request.')
-    }
-    const base_branch = github.context.payload.pull_request.base.ref
+    let base_branch = this.base_ref
     const events = await this.getEvents()
     // iterate over events in reverse chronological order to see if the target branch
     // was changed since the approval
@@ -142,33 +274,37 @@ export class PullRequest {
         break
       }
       if (event.event === 'base_ref_changed') {
-        // The target branch was changed, so we can't generate the diff cuz we don't know
-        // what the previous branch was via the REST API.
-        // Technically we _can_ get this information via the GraphQL API, but unclear how
-        // useful this would be anyways.
-        return null
+        // The target branch was changed, and the REST API doesn't tell us what the
+        // previous branch was, so look it up via the GraphQL API instead.
+        const previous_base = await this.getBaseRefAt(time_of_approval)
+        if (previous_base === null) {
+          return null
+        }
+        core.info(
+          `Target branch was changed since the approval; computing the reviewed ` +
+            `diff against ${previous_base} (the target branch at approval time).`
+        )
+        base_branch = previous_base
+        break
       }
     }
     // Did not early return, thus we have a target branch we can compute a diff against.
     // If the base branch or head ref was deleted / garbage collected (e.g. a forced
     // push resulted in the previously reviewed head to be orphaned), then this will
     // fail.
-    if (!most_recent_review.commit_id) {
+    if (!review.commit_id) {
       throw new Error('Unable to determine commit ID of review.')
     }
     try {
-      return await this.compareCommits(
-        base_branch,
-        most_recent_review.commit_id
-      )
+      return await this.compareCommits(base_branch, review.commit_id)
     } catch (error) {
       if (error instanceof Error) {
         core.warning(
-          `Unable to get diff for ${base_branch}...${most_recent_review.commit_id}: ${error.message}`
+          `Unable to get diff for ${base_branch}...${review.commit_id}: ${error.message}`
         )
       } else {
         core.warning(
-          `Unable to get diff for ${base_branch}...${most_recent_review.commit_id}: ` +
+          `Unable to get diff for ${base_branch}...${review.commit_id}: ` +
             `unknown error: ${error}`
         )
       }
@@ -176,6 +312,254 @@ export class PullRequest {
     }
   }
 
+  // Get the changes to the PR's target branch in chronological order.
+  async getBaseRefChanges(): Promise<BaseRefChange[]> {
+    const changes: BaseRefChange[] = []
+    let cursor: string | null = null
+    do {
+      const response: BaseRefChangesQueryResponse = await this.octokit.graphql(
+        `query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              timelineItems(
+                itemTypes: [BASE_REF_CHANGED_EVENT]
+                first: 100
+                after: $cursor
+              ) {
+                nodes {
+                  ... on BaseRefChangedEvent {
+                    createdAt
+                    previousRefName
+                    currentRefName
+                  }
+                }
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+              }
+            }
+          }
+        }`,
+        {
+          owner: this.owner,
+          repo: this.repo,
+          number: this.pull_number,
+          cursor,
+        }
+      )
+      const timeline = response.repository.pullRequest.timelineItems
+      changes.push(...timeline.nodes)
+      cursor = timeline.pageInfo.hasNextPage
+        ? timeline.pageInfo.endCursor
+        : null
+    } while (cursor !== null)
+    return changes
+  }
+
+  // Get the name of the PR's target branch at the given time (an ISO 8601 timestamp),
+  // or null if it can't be determined.
+  async getBaseRefAt(time: string): Promise<string | null> {
+    let changes: BaseRefChange[]
+    try {
+      changes = await this.getBaseRefChanges()
+    } catch (error) {
+      core.warning(
+        `Unable to get target branch changes via the GraphQL API: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return null
+    }
+    // The first change after the given time records what the target branch was
+    // changed from.
+    const next_change = changes.find(change => change.createdAt >= time)
+    if (!next_change) {
+      return this.base_ref
+    }
+    return next_change.previousRefName
+  }
+
+  // Get the contents of a file in the repository at the given ref, or null if the
+  // file doesn't exist.
+  async getFileContent(path: string, ref: string): Promise<string | null> {
+    try {
+      const response = await this.octokit.rest.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path,
+        ref,
+        headers: {
+          Accept: 'application/vnd.github.raw',
+        },
+      })
+      if (typeof response.data !== 'string') {
+        throw new Error(
+          `Response from GitHub API for ${path} was not a string.`
+        )
+      }
+      return response.data
+    } catch (error) {
+      if ((error as {status?: number}).status === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  // Create a comment on the PR, or update the existing comment containing the marker
+  // so that there is only ever a single such comment.
+  async upsertComment(marker: string, body: string): Promise<void> {
+    const comments = await this.octokit.paginate(
+      this.octokit.rest.issues.listComments,
+      {
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: this.pull_number,
+      }
+    )
+    const existing = comments.find(comment => comment.body?.includes(marker))
+    if (existing) {
+      await this.octokit.rest.issues.updateComment({
+        owner: this.owner,
+        repo: this.repo,
+        comment_id: existing.id,
+        body,
+      })
+    } else {
+      await this.octokit.rest.issues.createComment({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: this.pull_number,
+        body,
+      })
+    }
+  }
+
+  // Get the slugs of the teams each review was submitted on behalf of (i.e. the
+  // reviewer responded to a review request for the team), by review ID.
+  async getReviewTeams(reviews: ListOfReviews): Promise<Map<number, string[]>> {
+    const teams = new Map<number, string[]>()
+    if (reviews.length === 0) {
+      return teams
+    }
+    // The REST API doesn't tell which team a review was requested through.
+    const response: ReviewTeamsQueryResponse = await this.octokit.graphql(
+      `query($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on PullRequestReview {
+            databaseId
+            onBehalfOf(first: 100) {
+              nodes {
+                slug
+              }
+            }
+          }
+        }
+      }`,
+      {ids: reviews.map(review => review.node_id)}
+    )
+    for (const node of response.nodes) {
+      if (node) {
+        teams.set(
+          node.databaseId,
+          node.onBehalfOf.nodes.map(team => team.slug)
+        )
+      }
+    }
+    return teams
+  }
+
+  // Request reviews of the PR from the given users and teams (by slug).
+  async requestReviewers({
+    reviewers,
+    team_reviewers,
+  }: {
+    reviewers: string[]
+    team_reviewers: string[]
+  }): Promise<void> {
+    await this.octokit.rest.pulls.requestReviewers({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: this.pull_number,
+      reviewers,
+      team_reviewers,
+    })
+  }
+
+  // Get the logins of the members of a team in an organization.
+  async getTeamMembers(org: string, team_slug: string): Promise<string[]> {
+    const members = await this.octokit.paginate(
+      this.octokit.rest.teams.listMembersInOrg,
+      {
+        org,
+        team_slug,
+      }
+    )
+    return members.map(member => member.login)
+  }
+
+  // Create a completed check run on a commit.
+  async createCheckRun({
+    name,
+    head_sha,
+    conclusion,
+    title,
+    summary,
+    details_url,
+  }: {
+    name: string
+    head_sha: string
+    conclusion: CheckRunConclusion
+    title: string
+    summary: string
+    details_url: string
+  }): Promise<void> {
+    await this.octokit.rest.checks.create({
+      owner: this.owner,
+      repo: this.repo,
+      name,
+      head_sha,
+      status: 'completed',
+      conclusion,
+      details_url,
+      output: {title, summary},
+    })
+  }
+
+  // Get the most recently merged PR from the repository's head_ref branch into
+  // base_ref, or null if there is none.
+  async getMergedPullRequest(
+    head_ref: string,
+    base_ref: string
+  ): Promise<MergedPullRequest | null> {
+    const pulls = await this.octokit.paginate(this.octokit.rest.pulls.list, {
+      owner: this.owner,
+      repo: this.repo,
+      state: 'closed',
+      head: `${this.owner}:${head_ref}`,
+      base: base_ref,
+    })
+    let latest: (typeof pulls)[number] | null = null
+    for (const pull of pulls) {
+      if (
+        pull.merged_at &&
+        pull.merge_commit_sha &&
+        (!latest?.merged_at || pull.merged_at > latest.merged_at)
+      ) {
+        latest = pull
+      }
+    }
+    if (!latest?.merge_commit_sha) {
+      return null
+    }
+    return {
+      pull_number: latest.number,
+      head_sha: latest.head.sha,
+      merge_commit_sha: latest.merge_commit_sha,
+    }
+  }
+
   async getMergeBase(base: string, head: string): Promise<string> {
     const response = await this.octokit.rest.repos.compareCommitsWithBasehead({
       owner: this.owner,
@@ -3,21 +3,27 @@
 
 import * as core from '@actions/core'
 import {spawnSync} from 'child_process'
-
-export interface ApprovalMetadata {
-  version: number
-  approved_sha: string
-  merge_base_sha: string
-  base_sha: string
-  base_ref: string
-  approved_at: string
-}
+import {PathMatcher} from './ignore-paths'
 
 export interface RangeDiffResult {
   status: 'not_stale' | 'stale' | 'unknown'
   summary: string
 }
 
+// A pair of corresponding commits in the approved and current commit ranges.
+export interface RangeDiffCommit {
+  // "=" identical, "!" modified, "<" removed since approval or ">" added since.
+  marker: '=' | '!' | '<' | '>'
+  // The (abbreviated) commit in the approved range, or null if it was added since.
+  approved_sha: string | null
+  // The (abbreviated) commit in the current range, or null if it was removed since.
+  current_sha: string | null
+  subject: string
+  // For modified commits, whether code changed rather than only metadata (e.g. the
+  // commit message).
+  code_changed: boolean
+}
+
 /**
  * Parse git range-diff output to determine if reviews are stale.
  *
@@ -34,81 +40,41 @@ export interface RangeDiffResult {
  * For added (>) or removed (<) commits, we cannot determine from range-diff alone
  * whether the overall code changed (e.g., squashing commits), so we mark as stale
  * to trigger fallback to diff comparison.
+ *
+ * Changes to files matched by isIgnoredPath are treated like metadata changes.
  */
-export function parseRangeDiffOutput(output: string): RangeDiffResult {
+export function parseRangeDiffOutput(
+  output: string,
+  isIgnoredPath: PathMatcher = () => false
+): RangeDiffResult {
   // Empty output means no changes between the ranges
   if (!output || output.trim() === '') {
     return {status: 'not_stale', summary: 'No changes detected'}
   }
 
-  const lines = output.split('\n')
   let identicalCount = 0
   let metadataOnlyCount = 0
   let codeModifiedCount = 0
   let addedCount = 0
   let removedCount = 0
-
-  let i = 0
-  while (i < lines.length) {
-    const line = lines[i]
-
-    // Skip empty lines
-    if (!line) {
-      i++
-      continue
-    }
-
-    // Skip indented lines (diff details) - these are handled when processing ! markers
-    if (line.startsWith(' ') || line.startsWith('\t')) {
-      i++
-      continue
-    }
-
-    // Match the range-diff output format
-    // Format: "N: <sha> <marker> N: <sha> <subject>" or "-: ------- <marker> ..."
-    // The marker is one of: =, !, <, >
-    const markerMatch = line.match(
-      /^\s*-?(\d+)?:\s+[0-9a-f-]+\s+([=!<>])\s+-?(\d+)?:/
-    )
-
-    if (markerMatch) {
-      const marker = markerMatch[2]
-      switch (marker) {
-        case '=':
-          identicalCount++
-          i++
-          break
-        case '!':
-          // For ! markers, parse the following diff to check for code changes
-          i++
-          if (hasCodeChangesInModifiedCommit(lines, i)) {
-            codeModifiedCount++
-          } else {
-            metadataOnlyCount++
-          }
-          // Skip past the indented diff lines
-          while (
-            i < lines.length &&
-            (lines[i] === '' ||
-              lines[i].startsWith(' ') ||
-              lines[i].startsWith('\t'))
-          ) {
-            i++
-          }
-          break
-        case '>':
-          addedCount++
-          i++
-          break
-        case '<':
-          removedCount++
-          i++
-          break
-        default:
-          i++
-      }
-    } else {
-      i++
+  for (const commit of parseRangeDiffCommits(output, isIgnoredPath)) {
+    switch (commit.marker) {
+      case '=':
+        identicalCount++
+        break
+      case '!':
+        if (commit.code_changed) {
+          codeModifiedCount++
+        } else {
+          metadataOnlyCount++
+        }
+        break
+      case '>':
+        addedCount++
+        break
+      case '<':
+        removedCount++
+        break
     }
   }
 
@@ -151,21 +117,100 @@ export function parseRangeDiffOutput(output: string): RangeDiffResult {
   }
 }
 
+/**
+ * Parse the commit pairs out of git range-diff output, e.g. to report them.
+ *
+ * For modified commits (!), the following diff is parsed to tell whether code (other
+ * than that of files matched by isIgnoredPath) changed, as in parseRangeDiffOutput.
+ */
+export function parseRangeDiffCommits(
+  output: string,
+  isIgnoredPath: PathMatcher = () => false
+): RangeDiffCommit[] {
+  const commits: RangeDiffCommit[] = []
+  const lines = output.split('\n')
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+    i++
+
+    // Skip empty lines, and indented lines (diff details) - these are handled when
+    // processing ! markers
+    if (!line || line.startsWith(' ') || line.startsWith('\t')) {
+      continue
+    }
+
+    // Match the range-diff output format
+    // Format: "N: <sha> <marker> N: <sha> <subject>" or "-: ------- <marker> ..."
+    // The marker is one of: =, !, <, >
+    const markerMatch = line.match(
+      /^\s*-?(\d+)?:\s+([0-9a-f-]+)\s+([=!<>])\s+-?(\d+)?:(?:\s+([0-9a-f-]+))?(?:\s+(.*))?/
+    )
+    if (!markerMatch) {
+      continue
+    }
+    const marker = markerMatch[3] as RangeDiffCommit['marker']
+    let code_changed = false
+    if (marker === '!') {
+      // For ! markers, parse the following diff to check for code changes
+      code_changed = hasCodeChangesInModifiedCommit(lines, i, isIgnoredPath)
+      // Skip past the indented diff lines
+      while (
+        i < lines.length &&
+        (lines[i] === '' ||
+          lines[i].startsWith(' ') ||
+          lines[i].startsWith('\t'))
+      ) {
+        i++
+      }
+    }
+    commits.push({
+      marker,
+      approved_sha: commitSha(markerMatch[2]),
+      current_sha: commitSha(markerMatch[5]),
+      subject: markerMatch[6] ?? '',
+      code_changed,
+    })
+  }
+  return commits
+}
+
+// The abbreviated SHA of a side of a commit pair, or null for the dashes of a commit
+// which is only on the other side.
+function commitSha(sha: string | undefined): string | null {
+  return sha && !sha.startsWith('-') ? sha : null
+}
+
 /**
  * Check if a modified commit (!) has actual code changes vs just metadata changes.
  *
- * In git range-diff output, modified commits are followed by indented diff lines:
- * - "@@ Commit message" indicates commit message changes (metadata)
- * - "@@ <filename>" or "@@ <filename> @@" indicates file changes (code)
+ * In git range-diff output, modified commits are followed by indented hunks of the
+ * diff between the two versions of the commit's patch. Each line of a hunk starts
+ * with whether it was added (+) or removed (-) between the versions, followed by the
+ * line of the patch itself, in which "## <path> ##" headers start the changes to each
+ * file ("## Commit message ##" and "## Metadata ##" are metadata).
+ *
+ * The "@@ <section>" header of a hunk is only the closest header above it, which
+ * needn't be the file the hunk changes, so it only applies until the hunk's own file
+ * headers. A change whose file can't be determined counts as a code change.
  *
  * @param lines All lines from range-diff output
  * @param startIndex Index to start scanning from (first line after ! marker)
+ * @param isIgnoredPath Whether changes to a file should be disregarded
  * @returns true if there are code changes, false if only metadata changes
  */
 function hasCodeChangesInModifiedCommit(
   lines: string[],
-  startIndex: number
+  startIndex: number,
+  isIgnoredPath: PathMatcher
 ): boolean {
+  // Whether changes in the current section are code changes, and whether that was
+  // decided by the current hunk's header
+  let code = true
+  let header_code = true
+  // Whether the current hunk has changed lines; a hunk without any (which git doesn't
+  // output) is attributed to its header
+  let hunk_changed = true
   for (let i = startIndex; i < lines.length; i++) {
     const line = lines[i]
 
@@ -174,19 +219,58 @@ function hasCodeChangesInModifiedCommit(
       break
     }
 
-    // Look for @@ markers that indicate what section changed
-    // Format: "    @@ <section> @@" or "    @@ <section>"
-    // "Commit message" is metadata; anything else (file paths) is code
-    const sectionMatch = line.match(/^\s+@@\s+(.+?)(?:\s+@@|$)/)
-    if (sectionMatch) {
-      const section = sectionMatch[1].trim()
-      if (section !== 'Commit message' && section !== 'Metadata') {
+    const content = line.replace(/^( {4}|\t)/, '')
+    // Format: "@@ <section> @@" or "@@ <section>"
+    const hunkMatch = content.match(/^@@(?:\s+(.*?))?(?:\s+@@)?$/)
+    if (hunkMatch) {
+      if (!hunk_changed && header_code) {
+        return true
+      }
+      code = header_code = isCodeSection(hunkMatch[1] ?? '', isIgnoredPath)
+      hunk_changed = false
+      continue
+    }
+
+    const fileMatch = content.slice(1).match(/^ ## (.+) ##$/)
+    if (fileMatch) {
+      code = isCodeFile(fileMatch[1], isIgnoredPath)
+    }
+    if (content.startsWith('+') || content.startsWith('-')) {
+      hunk_changed = true
+      if (code) {
         return true
       }
     }
   }
 
-  return false
+  return !hunk_changed && header_code
+}
+
+// Whether changes after a hunk's "@@ <section>" header are code changes. The section
+// is the closest file header above the hunk, or the closest hunk header of the patch,
+// as in "@@ <filename>: <function>".
+function isCodeSection(section: string, isIgnoredPath: PathMatcher): boolean {
+  if (!section) {
+    return true
+  }
+  const colon = section.indexOf(':')
+  return (
+    isCodeFile(section, isIgnoredPath) &&
+    (colon === -1 || isCodeFile(section.slice(0, colon), isIgnoredPath))
+  )
+}
+
+// Whether changes after a "## <header> ##" file header of a patch are code changes,
+// i.e. whether it's a file (or either side of a renamed file) which isn't ignored.
+function isCodeFile(header: string, isIgnoredPath: PathMatcher): boolean {
+  if (header === 'Commit message' || header === 'Metadata') {
+    return false
+  }
+  const paths = header
+    .replace(/ \(mode change \d+ => \d+\)$/, '')
+    .replace(/ \((new|deleted)\)$/, '')
+    .split(' => ')
+  return paths.some(path => !isIgnoredPath(path))
 }
 
 /**
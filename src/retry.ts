@@ -0,0 +1,149 @@
+// Module for retrying GitHub API requests which failed with a transient error or hit
+// a rate limit, and for spacing out the requests which modify state, so that a single
+// 502 or secondary rate limit doesn't abort a run halfway through.
+
+import * as core from '@actions/core'
+import {GitHub} from '@actions/github/lib/utils'
+
+export interface RetryOptions {
+  // How often to retry a request before giving up.
+  max_retries: number
+  // Delay before the first retry of a transient error; doubles with each retry.
+  base_delay_ms: number
+  // Longest to wait before a retry, including when GitHub asks to wait (e.g. until
+  // the rate limit resets); requests which would have to wait longer fail instead.
+  max_delay_ms: number
+  // Minimum time between requests which modify state, which GitHub recommends to
+  // avoid secondary rate limits.
+  write_interval_ms: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  max_retries: 5,
+  base_delay_ms: 1000,
+  max_delay_ms: 2 * 60 * 1000,
+  write_interval_ms: 1000,
+}
+
+// GitHub asks to wait at least a minute after hitting a secondary rate limit without
+// a retry-after header.
+const SECONDARY_RATE_LIMIT_DELAY_MS = 60 * 1000
+
+/**
+ * Decide whether to retry a failed request, and after how long.
+ *
+ * Server errors are retried with exponential backoff. Rate limits (429, or 403 with
+ * retry-after, an exhausted rate limit or a secondary rate limit message) are retried
+ * after the time GitHub asks for. Other errors (e.g. a 403 for missing permissions)
+ * aren't retried.
+ *
+ * @param attempt the number of retries so far
+ * @returns the delay in milliseconds, or null to not retry
+ */
+export function retryDelay(
+  error: unknown,
+  attempt: number,
+  options: RetryOptions,
+  now = Date.now()
+): number | null {
+  if (attempt >= options.max_retries) {
+    return null
+  }
+  const {status, message, response} = error as {
+    status?: number
+    message?: string
+    response?: {headers?: Record<string, string | number | undefined>}
+  }
+  const headers = response?.headers ?? {}
+  const backoff = options.base_delay_ms * 2 ** attempt
+
+  let delay: number
+  if (status === 403 || status === 429) {
+    if (headers['retry-after'] !== undefined) {
+      delay = Number(headers['retry-after']) * 1000
+    } else if (String(headers['x-ratelimit-remaining']) === '0') {
+      delay = Number(headers['x-ratelimit-reset']) * 1000 - now
+    } else if (/secondary rate limit/i.test(message ?? '')) {
+      delay = Math.max(SECONDARY_RATE_LIMIT_DELAY_MS, backoff)
+    } else if (status === 429) {
+      delay = backoff
+    } else {
+      return null
+    }
+  } else if (status !== undefined && status >= 500) {
+    delay = Math.min(backoff, options.max_delay_ms)
+  } else {
+    return null
+  }
+  if (isNaN(delay) || delay > options.max_delay_ms) {
+    return null
+  }
+  return Math.max(delay, 0)
+}
+
+/**
+ * Retry the octokit's failed requests per retryDelay, and space out its requests
+ * which modify state by options.write_interval_ms. Applies to every request,
+ * including those made by paginate() and graphql(). Non-idempotent requests (POST
+ * and PATCH) aren't retried on server errors.
+ */
+export function throttleAndRetry(
+  octokit: InstanceType<typeof GitHub>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  sleep: (ms: number) => Promise<void> = defaultSleep
+): void {
+  // Writes are spaced out by reserving a time slot synchronously, so that concurrent
+  // writes queue up behind each other.
+  let next_write_at = 0
+  const waitForWriteSlot = async (): Promise<void> => {
+    const now = Date.now()
+    const at = Math.max(now, next_write_at)
+    next_write_at = at + options.write_interval_ms
+    if (at > now) {
+      await sleep(at - now)
+    }
+  }
+
+  octokit.hook.wrap('request', async (request, request_options) => {
+    const {method, url} = request_options
+    // GraphQL queries are POSTs too, but only read state.
+    const is_write = method !== 'GET' && method !== 'HEAD' && url !== '/graphql'
+    const is_idempotent =
+      (method !== 'POST' && method !== 'PATCH') || url === '/graphql'
+    for (let attempt = 0; ; attempt++) {
+      if (is_write) {
+        await waitForWriteSlot()
+      }
+      try {
+        return await request(request_options)
+      } catch (error) {
+        // A write which failed with a server error may have been applied anyway (e.g.
+        // a 502 after the comment was created), so retrying a non-idempotent one
+        // could apply it twice; only rate limits, which reject the request, are
+        // retried. Repeating a PUT or DELETE (e.g. a dismissal) is harmless.
+        const delay =
+          !is_idempotent && isServerError(error)
+            ? null
+            : retryDelay(error, attempt, options)
+        if (delay === null) {
+          throw error
+        }
+        core.warning(
+          `GitHub API request ${method} ${url} failed (${
+            error instanceof Error ? error.message : String(error)
+          }); retrying in ${Math.ceil(delay / 1000)}s.`
+        )
+        await sleep(delay)
+      }
+    }
+  })
+}
+
+function isServerError(error: unknown): boolean {
+  const {status} = error as {status?: number}
+  return status !== undefined && status >= 500
+}
+
+async function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -0,0 +1,129 @@
+// Take a snapshot of the approved diff when a PR is approved so that
+// dismiss-stale-reviews can later compare against it.
+//
+// This script is intended to run in a GitHub Actions workflow triggered by
+// pull_request_review: submitted.
+
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import {PullRequest} from './pull-request'
+import {
+  APPROVAL_METADATA_VERSION,
+  ApprovalMetadata,
+  describeApprovedFiles,
+  parseApprovalMetadata,
+} from './approval-metadata'
+import {signSnapshot} from './snapshot-signature'
+import {SnapshotStore} from './snapshot-store'
+
+export interface SnapshotResult {
+  metadata_path: string
+  diff_path: string
+  // Key to save the snapshot under with actions/cache - keyed by review ID because
+  // it is immutable even after force pushes (unlike the commit SHA which GitHub
+  // updates on the review object). Empty unless the snapshot was stored as files.
+  cache_key: string
+}
+
+export async function snapshotApproval({
+  token,
+  api_url,
+  snapshot_store,
+  signing_key,
+  re_review_label,
+}: {
+  token: string
+  api_url: string
+  snapshot_store: SnapshotStore
+  // Key to sign the snapshot with, or empty to not sign it.
+  signing_key: string
+  // Label applied by dismiss-stale-reviews, which the fresh approval resolves; empty
+  // to disable.
+  re_review_label: string
+}): Promise<SnapshotResult | null> {
+  // github.context.payload is the pull_request_review event payload[1].
+  //
+  // [1] https://docs.github.com/en/webhooks-and-events/webhooks/webhook-events-and-payloads?actionType=submitted#pull_request_review
+  const payload = github.context.payload
+  if (github.context.eventName !== 'pull_request_review' || !payload.review) {
+    throw new Error(
+      'snapshot-approval mode must be run on a pull_request_review event.'
+    )
+  }
+  // Note that the webhook payload reports the review state in lowercase, unlike the
+  // REST API.
+  if (
+    payload.action !== 'submitted' ||
+    String(payload.review.state).toLowerCase() !== 'approved'
+  ) {
+    core.info(
+      `Review ${payload.review.id} is not a submitted approval ` +
+        `(action=${payload.action}, state=${payload.review.state}); skipping snapshot.`
+    )
+    return null
+  }
+  const pull_request_payload = payload.pull_request
+  if (!pull_request_payload) {
+    throw new Error('This action must be run on a pull request.')
+  }
+
+  const pull_request = new PullRequest(token, {api_url})
+  const base_sha: string = pull_request_payload.base.sha
+  const approved_sha: string =
+    payload.review.commit_id ?? pull_request_payload.head.sha
+
+  const merge_base_sha = await pull_request.getMergeBase(base_sha, approved_sha)
+  core.debug(`Merge base of ${base_sha}...${approved_sha}: ${merge_base_sha}`)
+  const diff = await pull_request.compareCommits(base_sha, approved_sha)
+
+  const metadata: ApprovalMetadata = {
+    version: APPROVAL_METADATA_VERSION,
+    review_id: payload.review.id,
+    approved_sha,
+    merge_base_sha,
+    base_sha,
+    base_ref: pull_request_payload.base.ref,
+    approved_at: payload.review.submitted_at,
+    files: describeApprovedFiles(diff),
+  }
+  if (signing_key) {
+    metadata.signature = signSnapshot({metadata, diff, key: signing_key})
+  }
+  // Round trip through the parser so that we never write a snapshot that
+  // dismiss-stale-reviews would reject.
+  const serialized = JSON.stringify(metadata, null, 2)
+  parseApprovalMetadata(serialized)
+
+  const location = await snapshot_store.save(metadata.review_id, {
+    metadata: serialized,
+    diff,
+  })
+  core.info(
+    `Wrote approval snapshot for review ${metadata.review_id} ` +
+      `to ${location.metadata} and ${location.diff}.`
+  )
+
+  if (
+    re_review_label &&
+    pull_request_payload.labels?.some(
+      (label: {name: string}) => label.name === re_review_label
+    )
+  ) {
+    try {
+      await pull_request.removeLabel(re_review_label)
+    } catch (error) {
+      core.warning(
+        `Unable to remove the ${re_review_label} label: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+
+  return {
+    metadata_path: location.metadata,
+    diff_path: location.diff,
+    cache_key:
+      snapshot_store.type === 'files' ? `approval-${metadata.review_id}` : '',
+  }
+}
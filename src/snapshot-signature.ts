@@ -0,0 +1,74 @@
+// Module for signing approval snapshots, so that a snapshot seeded by someone
+// without the signing key (e.g. a workflow running on the PR branch writing to the
+// cache) isn't trusted.
+
+import crypto from 'crypto'
+import {ApprovalMetadata} from './approval-metadata'
+
+/**
+ * Sign a snapshot with HMAC-SHA256. The signature covers every metadata field (binding
+ * the diff to the review ID and approved SHA, and including the per-file hashes of
+ * version 2 metadata) and the diff itself.
+ *
+ * @returns the hex-encoded signature
+ */
+export function signSnapshot({
+  metadata,
+  diff,
+  key,
+}: {
+  metadata: ApprovalMetadata
+  diff: string
+  key: string
+}): string {
+  return crypto
+    .createHmac('sha256', key)
+    .update(signedPayload(metadata, diff))
+    .digest('hex')
+}
+
+/**
+ * Verify the signature of a snapshot.
+ *
+ * @returns whether the metadata has a signature matching the metadata and diff
+ */
+export function verifySnapshot({
+  metadata,
+  diff,
+  key,
+}: {
+  metadata: ApprovalMetadata
+  diff: string
+  key: string
+}): boolean {
+  if (!metadata.signature || !/^[0-9a-f]{64}$/.test(metadata.signature)) {
+    return false
+  }
+  const expected = Buffer.from(signSnapshot({metadata, diff, key}), 'hex')
+  const actual = Buffer.from(metadata.signature, 'hex')
+  return crypto.timingSafeEqual(expected, actual)
+}
+
+// The signed payload lists the fields explicitly (rather than serializing the
+// metadata object) so that it doesn't depend on the field order of the JSON.
+function signedPayload(metadata: ApprovalMetadata, diff: string): string {
+  const fields = [
+    metadata.version,
+    metadata.review_id,
+    metadata.approved_sha,
+    metadata.merge_base_sha,
+    metadata.base_sha,
+    metadata.base_ref,
+    metadata.approved_at,
+  ]
+  if (metadata.version >= 2) {
+    const files = (metadata.files ?? []).map(file => [
+      file.path,
+      file.base_blob_sha,
+      file.head_blob_sha,
+      file.patch_hash,
+    ])
+    fields.push(JSON.stringify(files))
+  }
+  return `dismiss-if-stale snapshot\n${JSON.stringify(fields)}\n${diff}`
+}
@@ -0,0 +1,218 @@
+// Module for storing the approval snapshots (the approval metadata and the approved
+// diff) written by snapshot-approval and read back by dismiss-stale-reviews.
+
+import fs from 'fs'
+import path from 'path'
+import * as core from '@actions/core'
+import {execFileSync} from 'child_process'
+import {isSnapshotPathTemplate, resolveSnapshotPath} from './approval-metadata'
+import {gitShowFile} from './git'
+
+// Which backend snapshots are stored with:
+// - files: at the path_to_cached_metadata / path_to_cached_diff paths, which the
+//   workflow persists (e.g. with actions/cache)
+// - git-ref: as a commit under refs/approval-snapshots/<review_id> in the repository
+//   itself, so that snapshots aren't evicted or size-limited like the cache
+export type SnapshotStoreType = 'files' | 'git-ref'
+
+export interface Snapshot {
+  // The serialized approval metadata, or null if the snapshot has none.
+  metadata: string | null
+  // The approved diff, or null if the snapshot has none.
+  diff: string | null
+}
+
+export interface SnapshotLocation {
+  // Where the metadata and diff were stored, for logging and outputs.
+  metadata: string
+  diff: string
+}
+
+export interface SnapshotStore {
+  readonly type: SnapshotStoreType
+  // Whether each review has its own snapshot. If not, a single snapshot is shared
+  // by all reviews and a snapshot without metadata is assumed to belong to the most
+  // recent approval.
+  readonly per_review: boolean
+  save(
+    review_id: number,
+    snapshot: {metadata: string; diff: string}
+  ): Promise<SnapshotLocation>
+  load(review_id: number): Promise<Snapshot>
+}
+
+/**
+ * Store snapshots as files at the given paths, which may contain a {review_id}
+ * placeholder so that each review has its own snapshot.
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  readonly type = 'files'
+  readonly per_review: boolean
+
+  constructor(
+    private readonly path_to_metadata: string,
+    private readonly path_to_diff: string
+  ) {
+    this.per_review =
+      isSnapshotPathTemplate(path_to_metadata) ||
+      isSnapshotPathTemplate(path_to_diff)
+  }
+
+  async save(
+    review_id: number,
+    snapshot: {metadata: string; diff: string}
+  ): Promise<SnapshotLocation> {
+    const location = this.locate(review_id)
+    writeFile(location.metadata, snapshot.metadata)
+    writeFile(location.diff, snapshot.diff)
+    return location
+  }
+
+  async load(review_id: number): Promise<Snapshot> {
+    const location = this.locate(review_id)
+    return {
+      metadata: readFile(location.metadata),
+      diff: readFile(location.diff),
+    }
+  }
+
+  private locate(review_id: number): SnapshotLocation {
+    return {
+      metadata: resolveSnapshotPath(this.path_to_metadata, review_id),
+      diff: resolveSnapshotPath(this.path_to_diff, review_id),
+    }
+  }
+}
+
+/**
+ * Store each review's snapshot in its own subdirectory of a local directory, e.g. for
+ * tests.
+ */
+export function localDirectorySnapshotStore(dir: string): FileSnapshotStore {
+  return new FileSnapshotStore(
+    path.join(dir, '{review_id}', SNAPSHOT_METADATA_FILE),
+    path.join(dir, '{review_id}', SNAPSHOT_DIFF_FILE)
+  )
+}
+
+export const SNAPSHOT_REF_PREFIX = 'refs/approval-snapshots/'
+const SNAPSHOT_METADATA_FILE = 'approval-metadata.json'
+const SNAPSHOT_DIFF_FILE = 'approved.diff'
+
+/**
+ * Store snapshots as commits (with the metadata and diff as files) under
+ * refs/approval-snapshots/<review_id> of the repository's origin remote. Writing
+ * snapshots requires a token with 'contents: write' permission.
+ *
+ * The snapshot refs aren't under refs/heads/, so they don't show up as branches and
+ * aren't fetched by default.
+ */
+export class GitRefSnapshotStore implements SnapshotStore {
+  readonly type = 'git-ref'
+  readonly per_review = true
+  private env: typeof process.env | null = null
+
+  // prepareRepo ensures the repository exists at repo_path and returns the env to run
+  // git commands with; it's called lazily so that nothing is cloned unless a
+  // snapshot is needed.
+  constructor(
+    private readonly repo_path: string,
+    private readonly prepareRepo: () => typeof process.env
+  ) {}
+
+  async save(
+    review_id: number,
+    snapshot: {metadata: string; diff: string}
+  ): Promise<SnapshotLocation> {
+    const ref = `${SNAPSHOT_REF_PREFIX}${review_id}`
+    const metadata_blob = this.git(['hash-object', '-w', '--stdin'], {
+      input: snapshot.metadata,
+    })
+    const diff_blob = this.git(['hash-object', '-w', '--stdin'], {
+      input: snapshot.diff,
+    })
+    const tree = this.git(['mktree'], {
+      input:
+        `100644 blob ${metadata_blob}\t${SNAPSHOT_METADATA_FILE}\n` +
+        `100644 blob ${diff_blob}\t${SNAPSHOT_DIFF_FILE}\n`,
+    })
+    const commit = this.git([
+      'commit-tree',
+      tree,
+      '-m',
+      `Approval snapshot for review ${review_id}`,
+    ])
+    // Review IDs are immutable, so a snapshot is only ever replaced by re-running
+    // the snapshot of the same approval.
+    this.git(['push', '--force', 'origin', `${commit}:${ref}`])
+    return {
+      metadata: `${ref}:${SNAPSHOT_METADATA_FILE}`,
+      diff: `${ref}:${SNAPSHOT_DIFF_FILE}`,
+    }
+  }
+
+  async load(review_id: number): Promise<Snapshot> {
+    const ref = `${SNAPSHOT_REF_PREFIX}${review_id}`
+    try {
+      this.git(['fetch', '--no-tags', '--depth=1', 'origin', `+${ref}:${ref}`])
+    } catch (error) {
+      core.debug(
+        `No snapshot at ${ref}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+      return {metadata: null, diff: null}
+    }
+    return {
+      metadata: gitShowFile({
+        repo_path: this.repo_path,
+        ref,
+        path: SNAPSHOT_METADATA_FILE,
+      }),
+      diff: gitShowFile({
+        repo_path: this.repo_path,
+        ref,
+        path: SNAPSHOT_DIFF_FILE,
+      }),
+    }
+  }
+
+  private git(args: string[], {input}: {input?: string} = {}): string {
+    if (this.env === null) {
+      this.env = {
+        // commit-tree needs an identity, which runners don't have configured.
+        GIT_AUTHOR_NAME: 'github-actions[bot]',
+        GIT_AUTHOR_EMAIL:
+          '41898282+github-actions[bot]@users.noreply.github.com',
+        GIT_COMMITTER_NAME: 'github-actions[bot]',
+        GIT_COMMITTER_EMAIL:
+          '41898282+github-actions[bot]@users.noreply.github.com',
+        ...this.prepareRepo(),
+      }
+    }
+    return execFileSync('git', args, {
+      cwd: this.repo_path,
+      env: this.env,
+      encoding: 'utf8',
+      input,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 32 * 1024 * 1024,
+    }).trim()
+  }
+}
+
+function readFile(file_path: string): string | null {
+  core.debug(`Checking for snapshot file at ${file_path}.`)
+  if (!file_path || !fs.existsSync(file_path)) {
+    return null
+  }
+  return fs.readFileSync(file_path, {encoding: 'utf8'})
+}
+
+function writeFile(file_path: string, contents: string): void {
+  const dir = path.dirname(file_path)
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, {recursive: true})
+  }
+  fs.writeFileSync(file_path, contents)
+}
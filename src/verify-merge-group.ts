@@ -0,0 +1,306 @@
+// Verify that each pull request in a merge group contributes the diff which was
+// approved, so that a merge queue can't merge changes which nobody approved (e.g.
+// after the PR was updated and the approval wasn't dismissed yet).
+//
+// This script is intended to run in a GitHub Actions workflow triggered by
+// merge_group: checks_requested. Rather than dismissing approvals, it fails the
+// check so that the PR is removed from the queue.
+
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import {PullRequest} from './pull-request'
+import {changedFiles, normalizeDiff} from './diff'
+import {DiffComparison, comparableDiff} from './diff-comparison'
+import {genReviewedDiff, loadSnapshot} from './dismiss-if-stale'
+import {gitDiff, gitFirstParentLog, gitShowFile} from './git'
+import {buildIgnoreMatcher, PathMatcher} from './ignore-paths'
+import {PreparedRepo} from './prepared-repo'
+import {SnapshotStore} from './snapshot-store'
+
+export interface MergeGroupEntry {
+  pull_number: number
+  // The PR's contribution to the merge group is the diff between these commits.
+  base_sha: string
+  head_sha: string
+}
+
+export interface MergeGroupResult {
+  // Whether any PR's contribution differs from what was approved.
+  is_stale: boolean
+  reason: string
+  stale_pull_numbers: number[]
+  // Files whose changes differ from what the stale PRs' approvals reviewed.
+  changed_files: string[]
+}
+
+interface EntryVerification {
+  is_stale: boolean
+  msg: string
+  changed_files: string[]
+}
+
+export async function verifyMergeGroup({
+  token,
+  api_url,
+  snapshot_store,
+  snapshot_signing_key,
+  repo_path,
+  fetch_depth,
+  ignore_paths,
+  ignore_linguist_generated,
+  diff_comparison,
+  ignore_whitespace,
+}: {
+  token: string
+  api_url: string
+  snapshot_store: SnapshotStore
+  snapshot_signing_key: string
+  repo_path: string
+  fetch_depth: number
+  ignore_paths: string[]
+  ignore_linguist_generated: boolean
+  diff_comparison: DiffComparison
+  ignore_whitespace: boolean
+}): Promise<MergeGroupResult> {
+  // github.context.payload is the merge_group event payload[1].
+  //
+  // [1] https://docs.github.com/en/webhooks/webhook-events-and-payloads#merge_group
+  const merge_group = github.context.payload.merge_group
+  const repository = github.context.payload.repository
+  if (github.context.eventName !== 'merge_group' || !merge_group) {
+    throw new Error(
+      'verify-merge-group mode must be run on a merge_group event.'
+    )
+  }
+  if (!repository) {
+    throw new Error('No repository in the event payload.')
+  }
+  // A shared snapshot is of whichever PR was approved last, so it can't be used to
+  // verify each PR in the group.
+  if (!snapshot_store.per_review) {
+    throw new Error(
+      'verify-merge-group mode needs a snapshot per review: use the "git-ref" ' +
+        'snapshot_store, or a {review_id} placeholder in path_to_cached_diff.'
+    )
+  }
+  const base_sha: string = merge_group.base_sha
+  const head_sha: string = merge_group.head_sha
+  const base_ref = String(merge_group.base_ref).replace(/^refs\/heads\//, '')
+
+  new PreparedRepo({repo_path, token, repository, pull_head: null}).prepare(
+    [base_sha, head_sha],
+    fetch_depth
+  )
+
+  const entries = locateMergeGroupEntries({
+    commits: gitFirstParentLog({repo_path, base: base_sha, head: head_sha}),
+    base_sha,
+    head_pull_number: parseQueuePullNumber(merge_group.head_ref),
+  })
+  core.info(
+    `Merge group ${merge_group.head_ref} contains ${entries
+      .map(entry => `#${entry.pull_number}`)
+      .join(', ')}.`
+  )
+
+  // Read .gitattributes from the base of the group so that the PRs themselves can't
+  // mark files as generated.
+  const is_ignored = buildIgnoreMatcher({
+    ignore_paths,
+    gitattributes: ignore_linguist_generated
+      ? gitShowFile({repo_path, ref: base_sha, path: '.gitattributes'})
+      : null,
+  })
+
+  const stale: {entry: MergeGroupEntry; verification: EntryVerification}[] = []
+  for (const entry of entries) {
+    const verification = await verifyEntry({
+      entry,
+      token,
+      api_url,
+      base_ref,
+      snapshot_store,
+      snapshot_signing_key,
+      repo_path,
+      is_ignored,
+      diff_comparison,
+      ignore_whitespace,
+    })
+    if (verification.is_stale) {
+      core.error(`#${entry.pull_number}: ${verification.msg}`)
+      stale.push({entry, verification})
+    } else {
+      core.info(`#${entry.pull_number}: ${verification.msg}`)
+    }
+  }
+
+  const changed_files = new Set<string>()
+  for (const {verification} of stale) {
+    for (const path of verification.changed_files) {
+      changed_files.add(path)
+    }
+  }
+  return {
+    is_stale: stale.length > 0,
+    reason:
+      stale.length > 0
+        ? stale
+            .map(
+              ({entry, verification}) =>
+                `#${entry.pull_number}: ${verification.msg}`
+            )
+            .join(' ')
+        : 'Every pull request in the merge group contributes the approved diff.',
+    stale_pull_numbers: stale.map(({entry}) => entry.pull_number),
+    changed_files: [...changed_files].sort((a, b) => a.localeCompare(b)),
+  }
+}
+
+/**
+ * Split the first-parent history of a merge group into the contribution of each PR.
+ *
+ * With the merge and squash merge methods, the merge queue creates one commit per PR
+ * whose subject references the PR ("Merge pull request #N from ..." or
+ * "<title> (#N)"). Any commits after the last such commit (e.g. with the rebase
+ * merge method) are attributed to the PR the merge group was created for. Commits of
+ * other PRs which can't be told apart are thus attributed to that PR, which fails
+ * the verification rather than passing it.
+ *
+ * @throws Error if commits can't be attributed to any PR
+ */
+export function locateMergeGroupEntries({
+  commits,
+  base_sha,
+  head_pull_number,
+}: {
+  commits: {sha: string; subject: string}[]
+  base_sha: string
+  head_pull_number: number | null
+}): MergeGroupEntry[] {
+  const entries: MergeGroupEntry[] = []
+  let from = base_sha
+  for (const commit of commits) {
+    const match =
+      commit.subject.match(/^Merge pull request #(\d+) from /) ??
+      commit.subject.match(/\(#(\d+)\)$/)
+    if (match) {
+      entries.push({
+        pull_number: parseInt(match[1], 10),
+        base_sha: from,
+        head_sha: commit.sha,
+      })
+      from = commit.sha
+    }
+  }
+  const last = commits[commits.length - 1]
+  if (last && from !== last.sha) {
+    if (head_pull_number === null) {
+      throw new Error(
+        `Unable to attribute the commits ${from}..${last.sha} of the merge group to a pull request.`
+      )
+    }
+    entries.push({
+      pull_number: head_pull_number,
+      base_sha: from,
+      head_sha: last.sha,
+    })
+  }
+  return entries
+}
+
+// Parse the PR number out of a merge queue branch, e.g.
+// "refs/heads/gh-readonly-queue/main/pr-123-<sha>".
+function parseQueuePullNumber(head_ref: unknown): number | null {
+  const match = String(head_ref).match(/\/pr-(\d+)-[0-9a-f]+$/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+async function verifyEntry({
+  entry,
+  token,
+  api_url,
+  base_ref,
+  snapshot_store,
+  snapshot_signing_key,
+  repo_path,
+  is_ignored,
+  diff_comparison,
+  ignore_whitespace,
+}: {
+  entry: MergeGroupEntry
+  token: string
+  api_url: string
+  base_ref: string
+  snapshot_store: SnapshotStore
+  snapshot_signing_key: string
+  repo_path: string
+  is_ignored: PathMatcher
+  diff_comparison: DiffComparison
+  ignore_whitespace: boolean
+}): Promise<EntryVerification> {
+  const pull_request = new PullRequest(token, {
+    api_url,
+    pull_request: {pull_number: entry.pull_number, base_ref},
+  })
+  const approved_reviews = await pull_request.getApprovedReviews()
+  if (approved_reviews.length === 0) {
+    // Whether approvals are required is up to the branch protection rules.
+    return {is_stale: false, msg: 'No approvals to verify.', changed_files: []}
+  }
+  // Approvals which are stale should have been dismissed before the PR was queued,
+  // so the most recent approval must match.
+  const review = approved_reviews[approved_reviews.length - 1]
+  const snapshot = await loadSnapshot({
+    review,
+    is_latest: true,
+    snapshot_store,
+    snapshot_signing_key,
+  })
+  if (snapshot.rejected) {
+    return {
+      is_stale: true,
+      msg: `The approval snapshot of review ${review.id} failed verification: ${snapshot.rejected}.`,
+      changed_files: [],
+    }
+  }
+
+  const reviewed_diff = await genReviewedDiff(
+    snapshot.diff,
+    pull_request,
+    review
+  )
+  const contribution_diff = gitDiff({
+    repo_path,
+    base: entry.base_sha,
+    head: entry.head_sha,
+    ignore_whitespace,
+  })
+  if (reviewed_diff === null || contribution_diff === null) {
+    return {
+      is_stale: true,
+      msg: `Unable to get the ${
+        reviewed_diff === null ? 'reviewed' : 'merge group'
+      } diff, so the approval of review ${review.id} can't be verified.`,
+      changed_files: [],
+    }
+  }
+
+  const options = {diff_comparison, ignore_whitespace, is_ignored}
+  const reviewed = comparableDiff(normalizeDiff(reviewed_diff), options)
+  const contribution = comparableDiff(normalizeDiff(contribution_diff), options)
+  if ((reviewed?.diff ?? '') === (contribution?.diff ?? '')) {
+    return {
+      is_stale: false,
+      msg: `The merge group contributes the diff approved in review ${review.id}.`,
+      changed_files: [],
+    }
+  }
+  const changed = changedFiles(reviewed?.files ?? [], contribution?.files ?? [])
+  return {
+    is_stale: true,
+    msg: `The merge group's changes differ from what was approved in review ${
+      review.id
+    }: ${changed.join(', ')}.`,
+    changed_files: changed,
+  }
+}